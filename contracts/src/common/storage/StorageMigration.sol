@@ -0,0 +1,38 @@
+pragma solidity 0.5.17;
+
+import {UsingStorage} from "contracts/src/common/storage/UsingStorage.sol";
+
+/**
+ * A logic contract to copy the values of an EternalStorage into a new one.
+ * The steps: `createStorage`, set the values, then `changeOwner` to the module that uses the new storage,
+ * and call `setStorage` of the module.
+ */
+contract StorageMigration is UsingStorage {
+	/**
+	 * Sets the `uint256` values of the keys.
+	 * Only the owner can execute this function.
+	 */
+	function setUints(bytes32[] calldata _keys, uint256[] calldata _values)
+		external
+		onlyOwner
+	{
+		require(_keys.length == _values.length, "illegal length");
+		for (uint256 i = 0; i < _keys.length; i++) {
+			eternalStorage().setUint(_keys[i], _values[i]);
+		}
+	}
+
+	/**
+	 * Sets the `bool` values of the keys.
+	 * Only the owner can execute this function.
+	 */
+	function setBools(bytes32[] calldata _keys, bool[] calldata _values)
+		external
+		onlyOwner
+	{
+		require(_keys.length == _values.length, "illegal length");
+		for (uint256 i = 0; i < _keys.length; i++) {
+			eternalStorage().setBool(_keys[i], _values[i]);
+		}
+	}
+}
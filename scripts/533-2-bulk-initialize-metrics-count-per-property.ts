@@ -3,6 +3,9 @@
 import {
 	prepare,
 	createQueue,
+	paginate,
+	collectPages,
+	offsetCursor,
 	createGraphQLPropertyFactoryCreateFetcher,
 	createGetMetricsCountPerProperty,
 	// Already nonexistent value
@@ -10,8 +13,8 @@ import {
 } from './lib/bulk-initializer'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 import { graphql } from './lib/api'
-import { GraphQLPropertyFactoryCreateResponse } from './lib/types'
-const { CONFIG, EGS_TOKEN } = process.env
+import { createEventIndexerFromEnv } from './lib/event-indexer'
+const { CONFIG, EGS_TOKEN, INDEXER, PAGE_SIZE } = process.env
 const { log: ____log } = console
 
 const handler = async (
@@ -27,28 +30,20 @@ const handler = async (
 	const lockup = await prepare(CONFIG, web3)
 	____log('Generated Lockup contract', lockup.options)
 
-	const fetchGraphQL = createGraphQLPropertyFactoryCreateFetcher(graphql())
-	const all = await (async () =>
-		new Promise<
-			GraphQLPropertyFactoryCreateResponse['data']['property_factory_create']
-		>((resolve) => {
-			const f = async (
-				i = 0,
-				prev: GraphQLPropertyFactoryCreateResponse['data']['property_factory_create'] = []
-			): Promise<void> => {
-				const { data } = await fetchGraphQL(i)
-				const { property_factory_create: items } = data
-				const next = [...prev, ...items]
-				if (items.length > 0) {
-					f(i + items.length, next).catch(console.error)
-				} else {
-					resolve(next)
-				}
-			}
-
-			f().catch(console.error)
-		}))()
-	____log('GraphQL fetched', all)
+	const fetchGraphQL =
+		INDEXER === 'graphql'
+			? createGraphQLPropertyFactoryCreateFetcher(graphql())
+			: (await createEventIndexerFromEnv(CONFIG, web3)).propertyFactoryCreate
+	const all = await collectPages(
+		paginate(
+			async ({ offset, limit }) =>
+				(
+					await fetchGraphQL(offset, limit)
+				).data.property_factory_create,
+			offsetCursor(PAGE_SIZE ? Number(PAGE_SIZE) : undefined)
+		)
+	)
+	____log('Fetched', all)
 	____log('all targets', all.length)
 
 	const fetchFastestGasPrice = ethGasStationFetcher(EGS_TOKEN)
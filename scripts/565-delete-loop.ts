@@ -1,12 +1,18 @@
+import Web3 from 'web3'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 import { config } from 'dotenv'
 import { DevCommonInstance } from './lib/instance/common'
+import { createAddressBookWriterFromEnv } from './lib/address-book'
 import { PolicyGroup } from './lib/instance/policy-group'
 import { PolicyFactory } from './lib/instance/policy-factory'
 import { VoteCounter } from './lib/instance/vote-counter'
 
 config()
-const { CONFIG: configAddress, EGS_TOKEN: egsApiKey } = process.env
+const {
+	CONFIG: configAddress,
+	EGS_TOKEN: egsApiKey,
+	DRY_RUN: dryRun,
+} = process.env
 
 const handler = async (
 	callback: (err: Error | null) => void
@@ -21,9 +27,11 @@ const handler = async (
 		artifacts,
 		configAddress,
 		gasFetcher,
-		gasPriceFetcher
+		gasPriceFetcher,
+		dryRun === 'true'
 	)
 	await dev.prepare()
+	dev.useAddressBook(await createAddressBookWriterFromEnv(web3 as Web3))
 
 	const policyGroup = new PolicyGroup(dev)
 	const currentPolicyGroup = await policyGroup.load()
@@ -46,6 +54,7 @@ const handler = async (
 		await dev.gasInfo
 	)
 	console.log('PolicySet address is 0')
+	dev.report()
 
 	callback(null)
 }
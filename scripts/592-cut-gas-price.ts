@@ -1,10 +1,16 @@
+import Web3 from 'web3'
 import { config } from 'dotenv'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 import { DevCommonInstance } from './lib/instance/common'
+import { createAddressBookWriterFromEnv } from './lib/address-book'
 import { Lockup } from './lib/instance/lockup'
 
 config()
-const { CONFIG: configAddress, EGS_TOKEN: egsApiKey } = process.env
+const {
+	CONFIG: configAddress,
+	EGS_TOKEN: egsApiKey,
+	DRY_RUN: dryRun,
+} = process.env
 
 const handler = async (
 	callback: (err: Error | null) => void
@@ -19,9 +25,11 @@ const handler = async (
 		artifacts,
 		configAddress,
 		gasFetcher,
-		gasPriceFetcher
+		gasPriceFetcher,
+		dryRun === 'true'
 	)
 	await dev.prepare()
+	dev.useAddressBook(await createAddressBookWriterFromEnv(web3 as Web3))
 
 	// Lockup
 	const lockup = new Lockup(dev)
@@ -29,6 +37,7 @@ const handler = async (
 	const nextLockupInstance = await lockup.create()
 	await lockup.changeOwner(lockupInstance, nextLockupInstance)
 	await lockup.set(nextLockupInstance)
+	dev.report()
 
 	callback(null)
 }
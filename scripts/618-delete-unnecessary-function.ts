@@ -1,10 +1,16 @@
+import Web3 from 'web3'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 import { config } from 'dotenv'
 import { DevCommonInstance } from './lib/instance/common'
+import { createAddressBookWriterFromEnv } from './lib/address-book'
 import { PolicyGroup } from './lib/instance/policy-group'
 
 config()
-const { CONFIG: configAddress, EGS_TOKEN: egsApiKey } = process.env
+const {
+	CONFIG: configAddress,
+	EGS_TOKEN: egsApiKey,
+	DRY_RUN: dryRun,
+} = process.env
 
 const handler = async (
 	callback: (err: Error | null) => void
@@ -19,15 +25,18 @@ const handler = async (
 		artifacts,
 		configAddress,
 		gasFetcher,
-		gasPriceFetcher
+		gasPriceFetcher,
+		dryRun === 'true'
 	)
 	await dev.prepare()
+	dev.useAddressBook(await createAddressBookWriterFromEnv(web3 as Web3))
 
 	const policyGroup = new PolicyGroup(dev)
 	const currentPolicyGroup = await policyGroup.load()
 	const nextPolicyGroup = await policyGroup.create()
 	await policyGroup.changeOwner(currentPolicyGroup, nextPolicyGroup)
 	await policyGroup.set(nextPolicyGroup)
+	dev.report()
 
 	callback(null)
 }
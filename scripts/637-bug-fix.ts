@@ -1,10 +1,16 @@
+import Web3 from 'web3'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 import { config } from 'dotenv'
 import { DevCommonInstance } from './lib/instance/common'
+import { createAddressBookWriterFromEnv } from './lib/address-book'
 import { Lockup } from './lib/instance/lockup'
 
 config()
-const { CONFIG: configAddress, EGS_TOKEN: egsApiKey } = process.env
+const {
+	CONFIG: configAddress,
+	EGS_TOKEN: egsApiKey,
+	DRY_RUN: dryRun,
+} = process.env
 
 const handler = async (
 	callback: (err: Error | null) => void
@@ -19,15 +25,18 @@ const handler = async (
 		artifacts,
 		configAddress,
 		gasFetcher,
-		gasPriceFetcher
+		gasPriceFetcher,
+		dryRun === 'true'
 	)
 	await dev.prepare()
+	dev.useAddressBook(await createAddressBookWriterFromEnv(web3 as Web3))
 
 	const l = new Lockup(dev)
 	const lCurrent = await l.load()
 	const lNext = await l.create()
 	await l.changeOwner(lCurrent, lNext)
 	await l.set(lNext)
+	dev.report()
 
 	callback(null)
 }
@@ -1,11 +1,16 @@
+import Web3 from 'web3'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 import { config } from 'dotenv'
 import { DevCommonInstance } from './lib/instance/common'
-import { Lockup } from './lib/instance/lockup'
-import { Withdraw } from './lib/instance/withdraw'
+import { createAddressBookWriterFromEnv } from './lib/address-book'
+import { runUpgradePlan } from './lib/upgrade-plan'
 
 config()
-const { CONFIG: configAddress, EGS_TOKEN: egsApiKey } = process.env
+const {
+	CONFIG: configAddress,
+	EGS_TOKEN: egsApiKey,
+	DRY_RUN: dryRun,
+} = process.env
 
 const handler = async (
 	callback: (err: Error | null) => void
@@ -20,31 +25,27 @@ const handler = async (
 		artifacts,
 		configAddress,
 		gasFetcher,
-		gasPriceFetcher
+		gasPriceFetcher,
+		dryRun === 'true'
 	)
 	await dev.prepare()
+	dev.useAddressBook(await createAddressBookWriterFromEnv(web3 as Web3))
 
 	const devMinter = await dev.artifacts
 		.require('DevMinter')
 		.new(dev.addressConfig.address, await dev.gasInfo)
 	console.log('DevMinter contract', devMinter.address)
+	dev.recordDeployment('devMinter', devMinter)
 
-	await dev.dev.addMinter(devMinter.address, await dev.gasInfo)
+	const added = await dev.dev.addMinter(devMinter.address, await dev.gasInfo)
+	dev.recordReplacement('devMinter', devMinter.address, added)
 
-	const l = new Lockup(dev)
-	const lCurrent = await l.load()
-	const lNext = await l.create(devMinter.address)
-
-	const w = new Withdraw(dev)
-	const wCurrent = await w.load()
-	const wNext = await w.create(devMinter.address)
-
-	await Promise.all([
-		l.changeOwner(lCurrent, lNext),
-		l.set(lNext),
-		w.changeOwner(wCurrent, wNext),
-		w.set(wNext),
-	])
+	await runUpgradePlan(dev, {
+		redeploy: ['Lockup', 'Withdraw'],
+		handover: ['Lockup', 'Withdraw'],
+		devMinter: devMinter.address,
+	})
+	dev.report()
 
 	callback(null)
 }
@@ -4,13 +4,35 @@ import {
 	createGraphQLFetcher,
 	createDifferenceCaller,
 	createGetStorageLastCumulativePropertyInterest,
-	createInitializeLastCumulativePropertyInterest,
+	encodeInitializeLastCumulativePropertyInterest,
 	createQueue,
+	paginate,
+	collectPages,
+	offsetCursor,
 } from './lib/bulk-initializer'
+import {
+	createJournal,
+	createJournalReconciler,
+	isJournalDone,
+	isJournalInFlight,
+	journalKey,
+	unconfirmedJournalEntries,
+} from './lib/journal'
+import {
+	createTransactionManager,
+	formatTransactionReports,
+} from './lib/transaction-manager'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 import { graphql } from './lib/api'
-import { GraphQLResponse, PromiseReturn } from './lib/types'
-const { CONFIG, EGS_TOKEN } = process.env
+import { createEventIndexerFromEnv } from './lib/event-indexer'
+import { PromiseReturn } from './lib/types'
+const {
+	CONFIG,
+	EGS_TOKEN,
+	INDEXER,
+	PAGE_SIZE,
+	JOURNAL = 'bulk-initialize-last-cumulative-property-interest.journal',
+} = process.env
 const { log: ____log } = console
 
 const handler = async (
@@ -25,39 +47,53 @@ const handler = async (
 	const lockup = await prepare(CONFIG, web3)
 	____log('Generated Lockup contract', lockup.options)
 
-	const fetchGraphQL = createGraphQLFetcher(graphql())
-	const all = await (async () =>
-		new Promise<GraphQLResponse['data']['account_lockup']>((resolve) => {
-			const f = async (
-				i = 0,
-				prev: GraphQLResponse['data']['account_lockup'] = []
-			): Promise<void> => {
-				const { data } = await fetchGraphQL(i)
-				const { account_lockup: items } = data
-				const next = [...prev, ...items]
-				if (items.length > 0) {
-					f(i + items.length, next).catch(console.error)
-				} else {
-					resolve(next)
-				}
-			}
+	const journal = createJournal(JOURNAL)
+	const reconciled = await createJournalReconciler(journal, web3)()
+	____log('Reconciled in-flight transactions', reconciled)
 
-			f().catch(console.error)
-		}))()
-	____log('GraphQL fetched', all)
+	const fetchGraphQL =
+		INDEXER === 'graphql'
+			? createGraphQLFetcher(graphql())
+			: (await createEventIndexerFromEnv(CONFIG, web3)).accountLockup
+	const all = await collectPages(
+		paginate(
+			async ({ offset, limit }) =>
+				(
+					await fetchGraphQL(offset, limit)
+				).data.account_lockup,
+			offsetCursor(PAGE_SIZE ? Number(PAGE_SIZE) : undefined)
+		)
+	)
+	____log('Fetched', all)
 
 	const fetchFastestGasPrice = ethGasStationFetcher(EGS_TOKEN)
 
 	const lastCumulativePropertyInterest =
 		createGetStorageLastCumulativePropertyInterest(lockup)
 	const initializeLastCumulativePropertyInterest =
-		createInitializeLastCumulativePropertyInterest(lockup)(from)
+		encodeInitializeLastCumulativePropertyInterest(lockup)
+	const manager = createTransactionManager(web3, {
+		from,
+		gasPrice: fetchFastestGasPrice,
+	})
 
 	____log('all targets', all.length)
 
 	const filteringTacks = all.map(
 		({ property_address, account_address, block_number }) =>
 			async () => {
+				const key = journalKey(property_address, account_address)
+				// The transactions still in the mempool are left to the next run
+				if (isJournalDone(journal, key) || isJournalInFlight(journal, key)) {
+					____log('Journaled item', journal.get(key))
+					return {
+						property_address,
+						account_address,
+						skip: true,
+						block_number,
+					}
+				}
+
 				const res = await lastCumulativePropertyInterest()(
 					property_address,
 					account_address
@@ -71,6 +107,10 @@ const handler = async (
 					res,
 					block_number
 				)
+				if (skip) {
+					journal.confirmed(key)
+				}
+
 				return { property_address, account_address, skip, block_number }
 			}
 	)
@@ -102,33 +142,57 @@ const handler = async (
 				}
 
 				const interest = res._interestAmount
-				const gasPrice = await fetchFastestGasPrice()
 				____log(
 					'Start initilization',
 					property_address,
 					account_address,
-					interest,
-					gasPrice
+					interest
 				)
 
-				await new Promise((resolve, reject) => {
+				const key = journalKey(property_address, account_address)
+				journal.pending(key)
+				const report = await manager.send(
 					initializeLastCumulativePropertyInterest(
 						property_address,
 						account_address,
-						interest,
-						gasPrice
+						interest
+					),
+					(hash) => {
+						____log('Created the transaction', hash)
+						journal.sent(key, hash)
+					}
+				)
+				if (report.state !== 'confirmed') {
+					// Timed out transactions are left to the reconciliation of the next run
+					if (report.state !== 'timeout') {
+						journal.pending(key)
+					}
+
+					____log(
+						'Failed initilization',
+						property_address,
+						account_address,
+						report
 					)
-						.on('transactionHash', (hash: string) => {
-							____log('Created the transaction', hash)
-						})
-						.on('confirmation', resolve)
-						.on('error', reject)
-				})
+					return
+				}
+
+				journal.confirmed(key, report.receipt?.transactionHash)
 				____log('Done initilization', property_address, account_address)
 			}
 	)
 
 	await createQueue(2).addAll(initializeTasks).catch(console.error)
+	____log(formatTransactionReports(manager.reports()))
+
+	const unconfirmed = unconfirmedJournalEntries(journal)
+	if (unconfirmed.length > 0) {
+		____log('Not confirmed yet', unconfirmed)
+		callback(
+			new Error(`${unconfirmed.length} transactions are not confirmed yet`)
+		)
+		return
+	}
 
 	callback(null)
 }
@@ -6,13 +6,35 @@ import {
 	createGetStorageLastCumulativeLockedUpAndBlock,
 	createDifferenceCaller,
 	createGetCumulativeLockedUpCaller,
-	createInitializeStatesAtLockup,
+	encodeInitializeStatesAtLockup,
 	createQueue,
+	paginate,
+	collectPages,
+	offsetCursor,
 } from './lib/bulk-initializer'
+import {
+	createJournal,
+	createJournalReconciler,
+	isJournalDone,
+	isJournalInFlight,
+	journalKey,
+	unconfirmedJournalEntries,
+} from './lib/journal'
+import {
+	createTransactionManager,
+	formatTransactionReports,
+} from './lib/transaction-manager'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 import { graphql } from './lib/api'
-import { GraphQLResponse, PromiseReturn } from './lib/types'
-const { CONFIG, EGS_TOKEN } = process.env
+import { createEventIndexerFromEnv } from './lib/event-indexer'
+import { PromiseReturn } from './lib/types'
+const {
+	CONFIG,
+	EGS_TOKEN,
+	INDEXER,
+	PAGE_SIZE,
+	JOURNAL = 'bulk-initialize-states-at-lockup.journal',
+} = process.env
 const { log: ____log } = console
 
 const handler = async (
@@ -27,26 +49,24 @@ const handler = async (
 	const lockup = await prepare(CONFIG, web3)
 	____log('Generated Lockup contract', lockup.options)
 
-	const fetchGraphQL = createGraphQLFetcher(graphql())
-	const all = await (async () =>
-		new Promise<GraphQLResponse['data']['account_lockup']>((resolve) => {
-			const f = async (
-				i = 0,
-				prev: GraphQLResponse['data']['account_lockup'] = []
-			): Promise<void> => {
-				const { data } = await fetchGraphQL(i)
-				const { account_lockup: items } = data
-				const next = [...prev, ...items]
-				if (items.length > 0) {
-					f(i + items.length, next).catch(console.error)
-				} else {
-					resolve(next)
-				}
-			}
+	const journal = createJournal(JOURNAL)
+	const reconciled = await createJournalReconciler(journal, web3)()
+	____log('Reconciled in-flight transactions', reconciled)
 
-			f().catch(console.error)
-		}))()
-	____log('GraphQL fetched', all)
+	const fetchGraphQL =
+		INDEXER === 'graphql'
+			? createGraphQLFetcher(graphql())
+			: (await createEventIndexerFromEnv(CONFIG, web3)).accountLockup
+	const all = await collectPages(
+		paginate(
+			async ({ offset, limit }) =>
+				(
+					await fetchGraphQL(offset, limit)
+				).data.account_lockup,
+			offsetCursor(PAGE_SIZE ? Number(PAGE_SIZE) : undefined)
+		)
+	)
+	____log('Fetched', all)
 
 	const fetchFastestGasPrice = ethGasStationFetcher(EGS_TOKEN)
 
@@ -54,13 +74,24 @@ const handler = async (
 		createGetStorageLastCumulativeGlobalReward(lockup)
 	const lastCumulativeLockedUpAndBlock =
 		createGetStorageLastCumulativeLockedUpAndBlock(lockup)
-	const initializeStatesAtLockup = createInitializeStatesAtLockup(lockup)(from)
+	const initializeStatesAtLockup = encodeInitializeStatesAtLockup(lockup)
+	const manager = createTransactionManager(web3, {
+		from,
+		gasPrice: fetchFastestGasPrice,
+	})
 
 	____log('all targets', all.length)
 
 	const filteringTacks = all.map(
 		({ property_address, account_address, ...x }) =>
 			async () => {
+				const key = journalKey(property_address, account_address)
+				// The transactions still in the mempool are left to the next run
+				if (isJournalDone(journal, key) || isJournalInFlight(journal, key)) {
+					____log('Journaled item', journal.get(key))
+					return { property_address, account_address, skip: true, ...x }
+				}
+
 				const [cReward, { _cLocked, _block }] = await Promise.all([
 					lastCumulativeGlobalReward()(property_address, account_address),
 					lastCumulativeLockedUpAndBlock()(property_address, account_address),
@@ -75,6 +106,10 @@ const handler = async (
 					_cLocked,
 					_block
 				)
+				if (skip) {
+					journal.confirmed(key)
+				}
+
 				return { property_address, account_address, skip, ...x }
 			}
 	)
@@ -114,36 +149,60 @@ const handler = async (
 
 				const reward = res[0]._reward
 				const cLocked = res[1]._value
-				const gasPrice = await fetchFastestGasPrice()
 				____log(
 					'Start initilization',
 					property_address,
 					account_address,
 					reward,
-					cLocked,
-					gasPrice
+					cLocked
 				)
 
-				await new Promise((resolve, reject) => {
+				const key = journalKey(property_address, account_address)
+				journal.pending(key)
+				const report = await manager.send(
 					initializeStatesAtLockup(
 						property_address,
 						account_address,
 						reward,
 						cLocked,
-						block_number.toString(),
-						gasPrice
+						block_number.toString()
+					),
+					(hash) => {
+						____log('Created the transaction', hash)
+						journal.sent(key, hash)
+					}
+				)
+				if (report.state !== 'confirmed') {
+					// Timed out transactions are left to the reconciliation of the next run
+					if (report.state !== 'timeout') {
+						journal.pending(key)
+					}
+
+					____log(
+						'Failed initilization',
+						property_address,
+						account_address,
+						report
 					)
-						.on('transactionHash', (hash: string) => {
-							____log('Created the transaction', hash)
-						})
-						.on('confirmation', resolve)
-						.on('error', reject)
-				})
+					return
+				}
+
+				journal.confirmed(key, report.receipt?.transactionHash)
 				____log('Done initilization', property_address, account_address)
 			}
 	)
 
 	await createQueue(2).addAll(initializeTasks).catch(console.error)
+	____log(formatTransactionReports(manager.reports()))
+
+	const unconfirmed = unconfirmedJournalEntries(journal)
+	if (unconfirmed.length > 0) {
+		____log('Not confirmed yet', unconfirmed)
+		callback(
+			new Error(`${unconfirmed.length} transactions are not confirmed yet`)
+		)
+		return
+	}
 
 	callback(null)
 }
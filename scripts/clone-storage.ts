@@ -0,0 +1,122 @@
+import Web3 from 'web3'
+import { writeFileSync } from 'fs'
+import { config } from 'dotenv'
+import { createEventIndexerFromEnv } from './lib/event-indexer'
+import { createGasStrategyFromEnv, feePerGas } from './lib/gas-strategy'
+import {
+	cloneStorage,
+	collectStorageEntities,
+	readStorageEntries,
+	verifyClonedStorage,
+} from './lib/storage-clone'
+import {
+	getModuleStorageAddress,
+	isStorageModule,
+	storageKeys,
+	storageModuleGetters,
+} from './lib/storage-keys'
+import { createTransactionManager } from './lib/transaction-manager'
+
+config()
+const {
+	CONFIG: configAddress,
+	MODULE: module,
+	BLOCK,
+	MIGRATION: migration,
+	BATCH_SIZE: batchSize,
+	OUTPUT,
+	DRY_RUN: dryRun,
+} = process.env
+
+const handler = async (
+	callback: (err: Error | null) => void
+): Promise<void> => {
+	if (!configAddress) {
+		return
+	}
+
+	if (!module || !isStorageModule(module)) {
+		throw new Error(
+			`MODULE should be one of ${Object.keys(storageKeys).join(', ')}`
+		)
+	}
+
+	const block = BLOCK
+		? Number(BLOCK)
+		: await (web3 as Web3).eth.getBlockNumber()
+	const indexer = await createEventIndexerFromEnv(configAddress, web3, {
+		...process.env,
+		TO_BLOCK: String(block),
+	})
+	const [entities, source] = await Promise.all([
+		collectStorageEntities(configAddress, web3, indexer, block),
+		getModuleStorageAddress(configAddress, web3, module, block),
+	])
+	const entries = await readStorageEntries(
+		web3,
+		source,
+		module,
+		entities,
+		block
+	)
+	const values = entries.filter(
+		({ value }) => value !== '0' && value !== 'false'
+	)
+	console.log(
+		`${module} storage ${source} at block ${block}:`,
+		entries.length,
+		'keys,',
+		values.length,
+		'values to write'
+	)
+	if (dryRun === 'true') {
+		callback(null)
+		return
+	}
+
+	const [from] = await (web3 as Web3).eth.getAccounts()
+	const strategy = createGasStrategyFromEnv(web3)
+	const manager = createTransactionManager(web3, {
+		from,
+		gasPrice: async () => strategy.gasInfo().then(feePerGas),
+	})
+	const cloned = await cloneStorage(web3, entries, {
+		from,
+		manager,
+		migration,
+		batchSize: batchSize ? Number(batchSize) : undefined,
+	})
+	const report = await verifyClonedStorage(
+		web3,
+		source,
+		cloned.storage,
+		entries
+	)
+	const output = OUTPUT ?? `storage-clone-${module}-${block}.json`
+	writeFileSync(output, `${JSON.stringify(report, null, 2)}\n`)
+	console.log('wrote', output)
+	console.log(
+		`${report.total - report.mismatches}/${report.total} keys match in ${
+			cloned.storage
+		}`
+	)
+	for (const { name, args, value, actual } of report.entries) {
+		if (value !== actual) {
+			console.log('mismatch', name, args.join(','), value, '->', actual)
+		}
+	}
+
+	if (report.mismatches === 0) {
+		console.log('To hand over the storage:')
+		console.log(
+			`1. StorageMigration(${cloned.migration}).changeOwner(AddressConfig.${storageModuleGetters[module]}())`
+		)
+		console.log(
+			`2. AddressConfig.${storageModuleGetters[module]}().setStorage(${cloned.storage})`
+		)
+	}
+
+	callback(null)
+}
+
+export = handler
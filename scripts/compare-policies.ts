@@ -0,0 +1,56 @@
+import Web3 from 'web3'
+import { writeFileSync } from 'fs'
+import { config } from 'dotenv'
+import { DevCommonInstance } from './lib/instance/common'
+import { Policy } from './lib/instance/policy'
+import {
+	createPolicyResolver,
+	diffPolicies,
+	policyDiffToCsv,
+} from './lib/policy-diff'
+
+config()
+const {
+	CONFIG: configAddress,
+	POLICY_BEFORE: before,
+	POLICY_AFTER: after,
+	OUTPUT: output = 'policy-diff.csv',
+} = process.env
+
+const handler = async (
+	callback: (err: Error | null) => void
+): Promise<void> => {
+	if (!configAddress || !after) {
+		return
+	}
+
+	const dev = new DevCommonInstance(
+		artifacts,
+		configAddress,
+		async () => 6721975,
+		async () => (web3 as Web3).eth.getGasPrice()
+	)
+	await dev.prepare()
+
+	const resolve = createPolicyResolver(dev)
+	const [policyBefore, policyAfter] = await Promise.all([
+		before ? resolve(before) : new Policy(dev).load(),
+		resolve(after),
+	])
+
+	const rows = await diffPolicies(policyBefore, policyAfter)
+	const changed = rows.filter((row) => row.changed)
+	console.log(`${changed.length} of ${rows.length} samples changed`)
+
+	writeFileSync(
+		output,
+		output.endsWith('.json')
+			? JSON.stringify(rows, null, 2)
+			: policyDiffToCsv(rows)
+	)
+	console.log('wrote', output)
+
+	callback(null)
+}
+
+export = handler
@@ -0,0 +1,41 @@
+import Web3 from 'web3'
+import { config } from 'dotenv'
+import { deployProtocol } from './lib/local-deployer'
+import { createAddressBookWriter } from './lib/address-book'
+
+config()
+const {
+	TREASURY: treasury,
+	CAP_SETTER: capSetter,
+	MINT_AMOUNT: mint,
+	OUTPUT: output = 'address-book.local.json',
+} = process.env
+
+const handler = async (
+	callback: (err: Error | null) => void
+): Promise<void> => {
+	const [from] = await (web3 as Web3).eth.getAccounts()
+
+	const addresses = await deployProtocol(artifacts, {
+		from,
+		treasury,
+		capSetter,
+		mint,
+	})
+
+	const [network, block] = await Promise.all([
+		(web3 as Web3).eth.net.getId(),
+		(web3 as Web3).eth.getBlockNumber(),
+	])
+	const addressBook = createAddressBookWriter(output, String(network))
+	for (const [name, address] of Object.entries(addresses)) {
+		addressBook.deployed(name, address)
+		addressBook.replaced(name, address, block)
+	}
+
+	console.log('wrote', output)
+
+	callback(null)
+}
+
+export = handler
@@ -1,9 +1,15 @@
+import Web3 from 'web3'
 import { DevCommonInstance } from './lib/instance/common'
+import { createAddressBookWriterFromEnv } from './lib/address-book'
 import { Withdraw } from './lib/instance/withdraw'
 import { config } from 'dotenv'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 config()
-const { CONFIG: configAddress, EGS_TOKEN: egsApiKey } = process.env
+const {
+	CONFIG: configAddress,
+	EGS_TOKEN: egsApiKey,
+	DRY_RUN: dryRun,
+} = process.env
 
 const handler = async (
 	callback: (err: Error | null) => void
@@ -18,14 +24,17 @@ const handler = async (
 		artifacts,
 		configAddress,
 		gasFetcher,
-		gasPriceFetcher
+		gasPriceFetcher,
+		dryRun === 'true'
 	)
 	await dev.prepare()
+	dev.useAddressBook(await createAddressBookWriterFromEnv(web3 as Web3))
 
 	// Withdraw
 	const withdraw = new Withdraw(dev)
 	const nextWithdraw = await withdraw.create()
 	await withdraw.set(nextWithdraw)
+	dev.report()
 
 	callback(null)
 }
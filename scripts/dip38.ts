@@ -1,17 +1,18 @@
+import Web3 from 'web3'
 import { ethGasStationFetcher } from '@devprotocol/util-ts'
 import { config } from 'dotenv'
 import { DevCommonInstance } from './lib/instance/common'
-import { MetricsGroup } from './lib/instance/metrics-group'
-import { Lockup } from './lib/instance/lockup'
-import { Withdraw } from './lib/instance/withdraw'
+import { createAddressBookWriterFromEnv } from './lib/address-book'
 import { PolicyFactory } from './lib/instance/policy-factory'
 import { Policy } from './lib/instance/policy'
+import { runUpgradePlan } from './lib/upgrade-plan'
 
 config()
 const {
 	CONFIG: configAddress,
 	EGS_TOKEN: egsApiKey,
 	CAP_SETTER: capSetter,
+	DRY_RUN: dryRun,
 } = process.env
 
 const handler = async (
@@ -27,17 +28,20 @@ const handler = async (
 		artifacts,
 		configAddress,
 		gasFetcher,
-		gasPriceFetcher
+		gasPriceFetcher,
+		dryRun === 'true'
 	)
 	await dev.prepare()
+	dev.useAddressBook(await createAddressBookWriterFromEnv(web3 as Web3))
 
 	// Create the new Policy
 	const policy = new Policy(dev)
 	const policy_current = await policy.load()
 	const treasury = await policy_current.treasury()
-	const policy_next = await artifacts
+	const policy_next = await dev.artifacts
 		.require('DIP55')
 		.new(dev.addressConfig.address, await dev.gasInfo)
+	dev.recordDeployment('policy', policy_next)
 	await Promise.all([
 		policy_next.setTreasury(treasury, await dev.gasInfo),
 		policy_next.setCapSetter(capSetter, await dev.gasInfo),
@@ -49,41 +53,18 @@ const handler = async (
 
 	// Force attach the new Policy
 	await policy_factory_current.create(policy_next.address, await dev.gasInfo)
-	await policy_factory_current.forceAttach(
+	const attached = await policy_factory_current.forceAttach(
 		policy_next.address,
 		await dev.gasInfo
 	)
+	dev.recordReplacement('policy', policy_next.address, attached)
 
-	// Create the new MetricsGroup
-	const metrics_group = new MetricsGroup(dev)
-	const metrics_group_current = await metrics_group.load()
-	const metrics_group_next = await metrics_group.create()
-
-	// Create the LockupMigration
-	const lockup = new Lockup(dev)
-	const lockup_current = await lockup.load()
-	const lockup_next = await lockup.create(await lockup_current.devMinter())
-
-	// Create the new Withdraw
-	const withdraw = new Withdraw(dev)
-	const withdraw_current = await withdraw.load()
-	const withdraw_next = await withdraw.create(
-		await withdraw_current.devMinter()
-	)
-
-	// Delegate to all new contracts
-	await Promise.all([
-		metrics_group.changeOwner(metrics_group_current, metrics_group_next),
-		lockup.changeOwner(lockup_current, lockup_next),
-		withdraw.changeOwner(withdraw_current, withdraw_next),
-	])
-
-	// Set all new contracts
-	await Promise.all([
-		metrics_group.set(metrics_group_next),
-		lockup.set(lockup_next),
-		withdraw.set(withdraw_next),
-	])
+	// Create, delegate and set MetricsGroup, Lockup and Withdraw
+	await runUpgradePlan(dev, {
+		redeploy: ['MetricsGroup', 'Lockup', 'Withdraw'],
+		handover: ['MetricsGroup', 'Lockup', 'Withdraw'],
+	})
+	dev.report()
 
 	callback(null)
 }
@@ -0,0 +1,119 @@
+import Web3 from 'web3'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+
+export const ADDRESS_BOOK_VERSION = 1
+
+export type AddressBookDeployment = {
+	readonly address: string
+	readonly transactionHash?: string
+}
+export type AddressBookReplacement = {
+	readonly address: string
+	readonly block: number
+	readonly replacedAt: number
+}
+export type AddressBookContract = {
+	readonly address?: string
+	readonly block?: number
+	readonly deployments: readonly AddressBookDeployment[]
+	readonly history: readonly AddressBookReplacement[]
+}
+export type AddressBook = {
+	readonly version: typeof ADDRESS_BOOK_VERSION
+	readonly network: string
+	readonly contracts: Readonly<Record<string, AddressBookContract>>
+}
+export type AddressBookWriter = {
+	readonly book: () => AddressBook
+	readonly address: (name: string) => string | undefined
+	readonly deployed: (
+		name: string,
+		address: string,
+		transactionHash?: string
+	) => void
+	readonly replaced: (name: string, address: string, block: number) => void
+}
+
+const emptyContract: AddressBookContract = { deployments: [], history: [] }
+
+export const loadAddressBook = (path: string, network: string): AddressBook => {
+	if (!existsSync(path)) {
+		return { version: ADDRESS_BOOK_VERSION, network, contracts: {} }
+	}
+
+	const book = JSON.parse(readFileSync(path, 'utf8')) as AddressBook
+	if (book.version !== ADDRESS_BOOK_VERSION) {
+		throw new Error(`unsupported address book version: ${String(book.version)}`)
+	}
+
+	if (book.network !== network) {
+		throw new Error(
+			`address book is for network ${book.network}, not ${network}`
+		)
+	}
+
+	return book
+}
+
+export const createAddressBookWriter = (
+	path: string,
+	network: string
+): AddressBookWriter => {
+	let book = loadAddressBook(path, network)
+	const update = (
+		name: string,
+		fn: (contract: AddressBookContract) => AddressBookContract
+	): void => {
+		book = {
+			...book,
+			contracts: {
+				...book.contracts,
+				[name]: fn(book.contracts[name] ?? emptyContract),
+			},
+		}
+		writeFileSync(path, `${JSON.stringify(book, null, 2)}\n`)
+	}
+
+	return {
+		book: () => book,
+		address: (name) => book.contracts[name]?.address,
+		deployed: (name, address, transactionHash) => {
+			update(name, (contract) => ({
+				...contract,
+				deployments: [...contract.deployments, { address, transactionHash }],
+			}))
+		},
+		replaced: (name, address, block) => {
+			update(name, (contract) => ({
+				...contract,
+				address,
+				block,
+				history:
+					typeof contract.address === 'undefined'
+						? contract.history
+						: [
+								...contract.history,
+								{
+									address: contract.address,
+									block: contract.block ?? 0,
+									replacedAt: block,
+								},
+						  ],
+			}))
+		},
+	}
+}
+
+/**
+ * ADDRESS_BOOK is the path of the address book to write, nothing is written without it.
+ */
+export const createAddressBookWriterFromEnv = async (
+	libWeb3: Web3,
+	{ ADDRESS_BOOK: addressBook }: NodeJS.ProcessEnv = process.env
+): Promise<AddressBookWriter | undefined> =>
+	addressBook
+		? createAddressBookWriter(
+				addressBook,
+				String(await libWeb3.eth.net.getId())
+		  )
+		: undefined
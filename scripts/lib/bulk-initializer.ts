@@ -9,6 +9,7 @@ import {
 	GraphQLPropertyFactoryCreateResponse,
 	GraphQLPropertyAuthenticationPropertyResponse,
 } from './types'
+import { ManagedTransaction } from './transaction-manager'
 import builtConfig from '../../build/contracts/AddressConfig.json'
 import builtLockup from '../../build/contracts/Lockup.json'
 import builtMetricsGroup from '../../build/contracts/MetricsGroup.json'
@@ -55,13 +56,16 @@ export const createWithdrawStorage = (address: string, libWeb3: Web3) =>
 export const createDev = (address: string, libWeb3: Web3) =>
 	new Contract(builtDev.abi as AbiItem[], address)
 
+const limitArgument = (limit?: number): string =>
+	typeof limit === 'undefined' ? '' : ` limit: ${limit},`
+
 export const createGraphQLFetcher =
 	(fetcher: bent.RequestFunction<bent.ValidResponse>) =>
-	async (offset = 0): Promise<GraphQLResponse> =>
+	async (offset = 0, limit?: number): Promise<GraphQLResponse> =>
 		fetcher('/', {
 			query: `{
 			account_lockup(
-				offset: ${offset},
+				offset: ${offset},${limitArgument(limit)}
 				order_by: {block_number: desc}
 			) {
 				property_address
@@ -72,11 +76,14 @@ export const createGraphQLFetcher =
 		}).then((r) => r as unknown as GraphQLResponse)
 export const createGraphQLPropertyFactoryCreateFetcher =
 	(fetcher: bent.RequestFunction<bent.ValidResponse>) =>
-	async (offset = 0): Promise<GraphQLPropertyFactoryCreateResponse> =>
+	async (
+		offset = 0,
+		limit?: number
+	): Promise<GraphQLPropertyFactoryCreateResponse> =>
 		fetcher('/', {
 			query: `{
 				property_factory_create(
-					offset: ${offset}
+					offset: ${offset},${limitArgument(limit)}
 				) {
 					property
 					authentication_aggregate {
@@ -89,11 +96,14 @@ export const createGraphQLPropertyFactoryCreateFetcher =
 		}).then((r) => r as unknown as GraphQLPropertyFactoryCreateResponse)
 export const createGraphQLPropertyAuthenticationPropertyFetcher =
 	(fetcher: bent.RequestFunction<bent.ValidResponse>) =>
-	async (offset = 0): Promise<GraphQLPropertyAuthenticationPropertyResponse> =>
+	async (
+		offset = 0,
+		limit?: number
+	): Promise<GraphQLPropertyAuthenticationPropertyResponse> =>
 		fetcher('/', {
 			query: `{
 			property_authentication(
-					offset: ${offset}
+					offset: ${offset},${limitArgument(limit)}
 				) {
 					property
 				}
@@ -178,6 +188,21 @@ export const createInitializeStatesAtLockup =
 		lockup.methods
 			.initializeStatesAtLockup(property, user, reward, cLocked, block)
 			.send({ gasPrice, from })
+export const encodeInitializeStatesAtLockup =
+	(lockup: Contract) =>
+	(
+		property: string,
+		user: string,
+		reward: string,
+		cLocked: string,
+		block: string
+		// eslint-disable-next-line max-params
+	): ManagedTransaction => ({
+		to: lockup.options.address,
+		data: lockup.methods
+			.initializeStatesAtLockup(property, user, reward, cLocked, block)
+			.encodeABI(),
+	})
 export const estimateGasInitialCumulativeHoldersRewardCap =
 	(lockup: Contract) =>
 	(from: string) =>
@@ -204,6 +229,14 @@ export const createInitializeLastCumulativePropertyInterest =
 		lockup.methods
 			.initializeLastCumulativePropertyInterest(property, user, interest)
 			.send({ gasPrice, from })
+export const encodeInitializeLastCumulativePropertyInterest =
+	(lockup: Contract) =>
+	(property: string, user: string, interest: string): ManagedTransaction => ({
+		to: lockup.options.address,
+		data: lockup.methods
+			.initializeLastCumulativePropertyInterest(property, user, interest)
+			.encodeABI(),
+	})
 export const createGetLastCumulativeHoldersRewardCaller =
 	(withdrawStorage: Contract) =>
 	async (property: string, user: string): Promise<string> =>
@@ -212,3 +245,95 @@ export const createGetLastCumulativeHoldersRewardCaller =
 			.call()
 
 export const createQueue = (concurrency: number) => new Queue({ concurrency })
+
+export type OffsetCursor = { readonly offset: number; readonly limit?: number }
+export type BlockCursor = {
+	readonly fromBlock: number
+	readonly toBlock: number
+}
+export type PageCursor<C, T> = {
+	readonly initial?: C
+	readonly next: (cursor: C, page: readonly T[]) => C | undefined
+}
+export type RetryOptions = {
+	readonly retries?: number
+	readonly backoff?: number
+}
+
+/**
+ * Pages by offset until an empty page is returned.
+ */
+export const offsetCursor = <T>(
+	limit?: number
+): PageCursor<OffsetCursor, T> => ({
+	initial: { offset: 0, limit },
+	next: ({ offset }, page) =>
+		page.length > 0 ? { offset: offset + page.length, limit } : undefined,
+})
+
+/**
+ * Pages by block ranges of `span` blocks until `toBlock` is covered.
+ */
+export const blockCursor = <T>(
+	fromBlock: number,
+	toBlock: number,
+	span: number
+): PageCursor<BlockCursor, T> => {
+	const range = (start: number): BlockCursor | undefined =>
+		start > toBlock
+			? undefined
+			: { fromBlock: start, toBlock: Math.min(start + span - 1, toBlock) }
+	return {
+		initial: range(fromBlock),
+		next: (cursor) => range(cursor.toBlock + 1),
+	}
+}
+
+const sleep = async (ms: number): Promise<void> =>
+	new Promise((resolve) => {
+		setTimeout(resolve, ms)
+	})
+
+const withRetry = async <T>(
+	fn: () => Promise<T>,
+	{ retries = 3, backoff = 1000 }: RetryOptions,
+	attempt = 0
+): Promise<T> =>
+	fn().catch(async (err: Error) => {
+		if (attempt >= retries) {
+			throw err
+		}
+
+		console.error('Retry the page', attempt + 1, err.message)
+		await sleep(backoff * 2 ** attempt)
+		return withRetry(fn, { retries, backoff }, attempt + 1)
+	})
+
+/**
+ * Yields the pages one by one, retrying a failed page with exponential backoff.
+ * The iteration throws once the retries of a page are exhausted.
+ */
+export async function* paginate<C, T>(
+	fetchPage: (cursor: C) => Promise<readonly T[]>,
+	{ initial, next }: PageCursor<C, T>,
+	options: RetryOptions = {}
+): AsyncGenerator<readonly T[]> {
+	for (let cursor = initial; typeof cursor !== 'undefined'; ) {
+		const current = cursor
+		// eslint-disable-next-line no-await-in-loop
+		const page = await withRetry(async () => fetchPage(current), options)
+		yield page
+		cursor = next(current, page)
+	}
+}
+
+export const collectPages = async <T>(
+	pages: AsyncIterable<readonly T[]>
+): Promise<T[]> => {
+	const all: T[] = []
+	for await (const page of pages) {
+		all.push(...page)
+	}
+
+	return all
+}
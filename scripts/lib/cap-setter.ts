@@ -0,0 +1,280 @@
+/* eslint-disable no-useless-call */
+import { appendFileSync } from 'fs'
+import BigNumber from 'bignumber.js'
+import Web3 from 'web3'
+import { Contract } from 'web3-eth-contract'
+import { AbiItem } from 'web3-utils/types'
+import { TransactionReceipt } from 'web3-core'
+import {
+	collectPages,
+	createDev,
+	createQueue,
+	createRegistry,
+	offsetCursor,
+	paginate,
+	prepare,
+} from './bulk-initializer'
+import { EventIndexer } from './event-indexer'
+import { TransactionManager } from './transaction-manager'
+import builtPolicy from '../../build/contracts/IPolicy.json'
+
+export type CapState = {
+	readonly block: number
+	readonly allValue: BigNumber
+	readonly propertyValues: readonly BigNumber[]
+	readonly totalSupply: BigNumber
+}
+export type CapFormula = (state: CapState) => BigNumber
+export type CapRecommendation = {
+	readonly block: number
+	readonly current: BigNumber
+	readonly recommended: BigNumber
+	readonly deviation: number
+	readonly exceeded: boolean
+}
+export type UpdateCapLog = {
+	readonly block: number
+	readonly transactionHash: string
+	readonly cap: string
+	readonly previous: string
+	readonly recommended: string
+	readonly deviation: string
+}
+export type CapSetterOptions = {
+	readonly from: string
+	readonly manager: TransactionManager
+	readonly formula?: CapFormula
+	readonly threshold?: number
+	readonly dryRun?: boolean
+	readonly log?: string
+}
+export type CapSetter = {
+	readonly recommend: () => Promise<CapRecommendation>
+	readonly run: () => Promise<readonly UpdateCapLog[]>
+}
+
+const ZERO = new BigNumber(0)
+
+/**
+ * The geometric mean of the staking amounts of the staked Properties,
+ * calculated in floating point so only about 15 digits are exact.
+ */
+export const geometricMeanCap: CapFormula = ({ propertyValues }) => {
+	if (propertyValues.length === 0) {
+		return ZERO
+	}
+
+	const logs = propertyValues.map((x) => Math.log(x.toNumber()))
+	return new BigNumber(
+		Math.exp(logs.reduce((a, b) => a + b, 0) / logs.length)
+	).integerValue(BigNumber.ROUND_FLOOR)
+}
+
+/**
+ * The arithmetic mean of the staking amounts of the staked Properties.
+ */
+export const arithmeticMeanCap: CapFormula = ({ allValue, propertyValues }) =>
+	propertyValues.length === 0
+		? ZERO
+		: allValue.div(propertyValues.length).integerValue(BigNumber.ROUND_FLOOR)
+
+/**
+ * The median of the staking amounts of the staked Properties.
+ */
+export const medianCap: CapFormula = ({ propertyValues }) => {
+	const sorted = [...propertyValues].sort((a, b) => a.comparedTo(b))
+	const middle = Math.floor(sorted.length / 2)
+	return sorted.length === 0
+		? ZERO
+		: sorted.length % 2 === 1
+		? sorted[middle]
+		: sorted[middle - 1]
+				.plus(sorted[middle])
+				.div(2)
+				.integerValue(BigNumber.ROUND_FLOOR)
+}
+
+export const capFormulas: Readonly<Record<string, CapFormula>> = {
+	'geometric-mean': geometricMeanCap,
+	'arithmetic-mean': arithmeticMeanCap,
+	median: medianCap,
+}
+
+/**
+ * The relative difference from the current cap, `Infinity` when only the current one is zero.
+ */
+export const capDeviation = (
+	current: BigNumber,
+	recommended: BigNumber
+): number =>
+	current.isZero()
+		? recommended.isZero()
+			? 0
+			: Infinity
+		: recommended.minus(current).abs().div(current).toNumber()
+
+/**
+ * Reads the staking amount of every Property found in the `Lockedup` events at the same block.
+ */
+export const fetchCapState = async (
+	configAddress: string,
+	libWeb3: Web3,
+	indexer: EventIndexer,
+	block: number
+): Promise<CapState> => {
+	const lockup = await prepare(configAddress, libWeb3, block)
+	const dev = createDev(
+		await createRegistry(configAddress, libWeb3)
+			.methods.token()
+			.call(undefined, block),
+		libWeb3
+	)
+	const stakes = await collectPages(
+		paginate(
+			async ({ offset, limit }) =>
+				(
+					await indexer.accountLockup(offset, limit)
+				).data.account_lockup,
+			offsetCursor()
+		)
+	)
+	const properties = [
+		...new Set(stakes.map((x) => x.property_address.toLowerCase())),
+	]
+	const values = await createQueue(10).addAll(
+		properties.map(
+			(property) => async () =>
+				lockup.methods
+					.getPropertyValue(property)
+					.call(undefined, block)
+					.then((x: string) => new BigNumber(x))
+		)
+	)
+	const [allValue, totalSupply] = await Promise.all([
+		lockup.methods.getAllValue().call(undefined, block),
+		dev.methods.totalSupply().call(undefined, block),
+	])
+	return {
+		block,
+		allValue: new BigNumber(allValue),
+		propertyValues: values.filter((x) => x.isGreaterThan(0)),
+		totalSupply: new BigNumber(totalSupply),
+	}
+}
+
+const findUpdateCaps = (
+	libWeb3: Web3,
+	lockup: Contract,
+	{ logs }: TransactionReceipt
+): string[] => {
+	const topic = libWeb3.utils.sha3('UpdateCap(uint256)')
+	return logs
+		.filter(
+			(log) =>
+				log.address.toLowerCase() === lockup.options.address.toLowerCase() &&
+				log.topics[0] === topic
+		)
+		.map((log) => String(libWeb3.eth.abi.decodeParameter('uint256', log.data)))
+}
+
+/**
+ * Keeps `Lockup.cap` close to the value of the formula.
+ * `updateCap` is sent only when the deviation is more than the threshold, 0.1 by default,
+ * and every `UpdateCap` event it caused is appended to the log as a JSON line.
+ */
+export const createCapSetter = (
+	configAddress: string,
+	libWeb3: Web3,
+	indexer: EventIndexer,
+	{
+		from,
+		manager,
+		formula = geometricMeanCap,
+		threshold = 0.1,
+		dryRun = false,
+		log = 'update-cap.log',
+	}: CapSetterOptions
+): CapSetter => {
+	const recommend = async (): Promise<CapRecommendation> => {
+		const block = await libWeb3.eth.getBlockNumber()
+		const [state, lockup] = await Promise.all([
+			fetchCapState(configAddress, libWeb3, indexer, block),
+			prepare(configAddress, libWeb3, block),
+		])
+		const current = new BigNumber(
+			await lockup.methods.cap().call(undefined, block)
+		)
+		const recommended = formula(state)
+		const deviation = capDeviation(current, recommended)
+		return {
+			block,
+			current,
+			recommended,
+			deviation,
+			exceeded: deviation > threshold,
+		}
+	}
+
+	const run = async (): Promise<readonly UpdateCapLog[]> => {
+		const recommendation = await recommend()
+		const { current, recommended, deviation, exceeded } = recommendation
+		console.log(
+			'cap',
+			current.toFixed(),
+			'recommended',
+			recommended.toFixed(),
+			'deviation',
+			deviation
+		)
+		if (!exceeded) {
+			return []
+		}
+
+		const lockup = await prepare(configAddress, libWeb3)
+		const policy = new libWeb3.eth.Contract(
+			builtPolicy.abi as AbiItem[],
+			await createRegistry(configAddress, libWeb3).methods.policy().call()
+		)
+		const setter: string = await policy.methods.capSetter().call()
+		if (setter.toLowerCase() !== from.toLowerCase()) {
+			throw new Error(`${from} is not the cap setter, ${setter} is`)
+		}
+
+		const tx = {
+			to: lockup.options.address,
+			data: lockup.methods.updateCap(recommended.toFixed()).encodeABI(),
+		}
+		if (dryRun) {
+			console.log('Dry run, skipped updateCap', tx)
+			return []
+		}
+
+		const report = await manager.send(tx, (hash) => {
+			console.log('Created the transaction', hash)
+		})
+		if (report.state !== 'confirmed' || !report.receipt) {
+			throw new Error(
+				`updateCap was not confirmed: ${report.state} ${report.error ?? ''}`
+			)
+		}
+
+		const { receipt } = report
+		const updates = findUpdateCaps(libWeb3, lockup, receipt).map(
+			(cap): UpdateCapLog => ({
+				block: receipt.blockNumber,
+				transactionHash: receipt.transactionHash,
+				cap,
+				previous: current.toFixed(),
+				recommended: recommended.toFixed(),
+				deviation: String(deviation),
+			})
+		)
+		for (const update of updates) {
+			appendFileSync(log, `${JSON.stringify(update)}\n`)
+		}
+
+		return updates
+	}
+
+	return { recommend, run }
+}
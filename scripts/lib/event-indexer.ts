@@ -0,0 +1,326 @@
+import Web3 from 'web3'
+import { EventData } from 'web3-eth-contract'
+import { AbiItem } from 'web3-utils/types'
+import {
+	createRegistry,
+	paginate,
+	collectPages,
+	blockCursor,
+} from './bulk-initializer'
+import { AddressBook, loadAddressBook } from './address-book'
+import {
+	GraphQLResponse,
+	GraphQLPropertyFactoryCreateResponse,
+	GraphQLPropertyAuthenticationPropertyResponse,
+} from './types'
+import builtLockup from '../../build/contracts/Lockup.json'
+import builtWithdraw from '../../build/contracts/Withdraw.json'
+import builtPropertyFactory from '../../build/contracts/PropertyFactory.json'
+import builtMetricsFactory from '../../build/contracts/MetricsFactory.json'
+import builtMetrics from '../../build/contracts/Metrics.json'
+import builtMarketFactory from '../../build/contracts/MarketFactory.json'
+import builtPolicyFactory from '../../build/contracts/PolicyFactory.json'
+
+export type IndexerSources = {
+	readonly lockup: readonly string[]
+	readonly withdraw: readonly string[]
+	readonly propertyFactory: readonly string[]
+	readonly metricsFactory: readonly string[]
+	readonly marketFactory: readonly string[]
+	readonly policyFactory: readonly string[]
+}
+export type IndexerOptions = {
+	readonly fromBlock?: number
+	readonly toBlock?: number
+	readonly step?: number
+	readonly pageSize?: number
+}
+export type PropertyTransfer = {
+	readonly property: string
+	readonly from: string
+	readonly to: string
+	readonly block_number: number
+}
+export type CreatedContract = {
+	readonly address: string
+	readonly block_number: number
+}
+export type EventIndexer = {
+	readonly accountLockup: (
+		offset?: number,
+		limit?: number
+	) => Promise<GraphQLResponse>
+	readonly propertyFactoryCreate: (
+		offset?: number,
+		limit?: number
+	) => Promise<GraphQLPropertyFactoryCreateResponse>
+	readonly propertyAuthentication: (
+		offset?: number,
+		limit?: number
+	) => Promise<GraphQLPropertyAuthenticationPropertyResponse>
+	readonly propertyTransfers: () => Promise<readonly PropertyTransfer[]>
+	readonly markets: () => Promise<readonly CreatedContract[]>
+	readonly policies: () => Promise<readonly CreatedContract[]>
+	readonly metrics: () => Promise<readonly CreatedContract[]>
+}
+
+const byBlockAndLogIndex = (a: EventData, b: EventData): number =>
+	a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+
+const unique = (addresses: readonly string[]): string[] => [
+	...new Map(addresses.map((x) => [x.toLowerCase(), x])).values(),
+]
+
+/**
+ * Every address the contract had, since logic contracts are replaced by upgrades.
+ * The address book provides the past addresses, AddressConfig the current one.
+ */
+export const createIndexerSources = async (
+	configAddress: string,
+	libWeb3: Web3,
+	book?: AddressBook
+): Promise<IndexerSources> => {
+	const configContract = createRegistry(configAddress, libWeb3)
+	const addresses = async (name: keyof IndexerSources): Promise<string[]> => {
+		const current = (await configContract.methods[name]().call()) as string
+		const history = (book?.contracts[name]?.history ?? []).map(
+			({ address }) => address
+		)
+		return unique([...history, current])
+	}
+
+	const [
+		lockup,
+		withdraw,
+		propertyFactory,
+		metricsFactory,
+		marketFactory,
+		policyFactory,
+	] = await Promise.all([
+		addresses('lockup'),
+		addresses('withdraw'),
+		addresses('propertyFactory'),
+		addresses('metricsFactory'),
+		addresses('marketFactory'),
+		addresses('policyFactory'),
+	])
+	return {
+		lockup,
+		withdraw,
+		propertyFactory,
+		metricsFactory,
+		marketFactory,
+		policyFactory,
+	}
+}
+
+const createLogFetcher =
+	(libWeb3: Web3, { fromBlock = 0, toBlock, step = 100000 }: IndexerOptions) =>
+	async (
+		abi: readonly unknown[],
+		addresses: readonly string[],
+		event: string
+	): Promise<EventData[]> => {
+		const lastBlock = toBlock ?? (await libWeb3.eth.getBlockNumber())
+		const events: EventData[] = []
+		for (const address of addresses) {
+			const contract = new libWeb3.eth.Contract(abi as AbiItem[], address)
+			// Nodes limit the block range of a single query
+			// eslint-disable-next-line no-await-in-loop
+			const found = await collectPages(
+				paginate(
+					async (range) => contract.getPastEvents(event, range),
+					blockCursor<EventData>(fromBlock, lastBlock, step)
+				)
+			)
+			events.push(...found)
+		}
+
+		return events.sort(byBlockAndLogIndex)
+	}
+
+const pageOf =
+	<T, R>(
+		load: () => Promise<readonly T[]>,
+		wrap: (items: T[]) => R,
+		size: number
+	) =>
+	async (offset = 0, limit = size): Promise<R> =>
+		wrap((await load()).slice(offset, offset + limit))
+
+// A rejected load is not cached, so that the retries of `paginate` load again
+const memoize = <T>(fn: () => Promise<T>): (() => Promise<T>) => {
+	let result: Promise<T> | undefined
+	return async () => {
+		result =
+			result ??
+			fn().catch((err: unknown) => {
+				result = undefined
+				throw err
+			})
+		return result
+	}
+}
+
+/**
+ * Builds the datasets of the hosted GraphQL API from the logs of any node.
+ * The fetchers keep the offset-based signature of the GraphQL fetchers.
+ */
+export const createEventIndexer = (
+	libWeb3: Web3,
+	sources: IndexerSources,
+	options: IndexerOptions = {}
+): EventIndexer => {
+	const { pageSize = 1000 } = options
+	const fetchLogs = createLogFetcher(libWeb3, options)
+
+	const accountLockup = memoize(async () => {
+		const events = await fetchLogs(builtLockup.abi, sources.lockup, 'Lockedup')
+		const latest = new Map<
+			string,
+			GraphQLResponse['data']['account_lockup'][0]
+		>()
+		for (const { returnValues, blockNumber } of events) {
+			const { _from, _property } = returnValues as Record<string, string>
+			latest.set(`${_property}:${_from}`.toLowerCase(), {
+				property_address: _property,
+				account_address: _from,
+				block_number: blockNumber,
+			})
+		}
+
+		return [...latest.values()].sort((a, b) => b.block_number - a.block_number)
+	})
+
+	const properties = memoize(async () => {
+		const events = await fetchLogs(
+			builtPropertyFactory.abi,
+			sources.propertyFactory,
+			'Create'
+		)
+		return events.map(
+			({ returnValues }) => (returnValues as Record<string, string>)._property
+		)
+	})
+
+	const authentications = memoize(async () => {
+		const [created, destroyed] = await Promise.all([
+			fetchLogs(builtMetricsFactory.abi, sources.metricsFactory, 'Create'),
+			fetchLogs(builtMetricsFactory.abi, sources.metricsFactory, 'Destroy'),
+		])
+		const metricsOf = ({ returnValues }: EventData): string =>
+			(returnValues as Record<string, string>)._metrics.toLowerCase()
+		const destroyedMetrics = new Set(destroyed.map(metricsOf))
+		const active = created.filter((x) => !destroyedMetrics.has(metricsOf(x)))
+		return Promise.all(
+			active.map(async ({ returnValues }) =>
+				new libWeb3.eth.Contract(
+					builtMetrics.abi as AbiItem[],
+					(returnValues as Record<string, string>)._metrics
+				).methods
+					.property()
+					.call()
+			)
+		) as Promise<string[]>
+	})
+
+	const propertyFactoryCreate = memoize(async () => {
+		const [created, authenticated] = await Promise.all([
+			properties(),
+			authentications(),
+		])
+		const counts = new Map<string, number>()
+		for (const property of authenticated) {
+			const key = property.toLowerCase()
+			counts.set(key, (counts.get(key) ?? 0) + 1)
+		}
+
+		return created.map((property) => ({
+			property,
+			authentication_aggregate: {
+				aggregate: { count: counts.get(property.toLowerCase()) ?? 0 },
+			},
+		}))
+	})
+
+	const propertyTransfers = memoize(async () => {
+		const events = await fetchLogs(
+			builtWithdraw.abi,
+			sources.withdraw,
+			'PropertyTransfer'
+		)
+		return events.map(({ returnValues, blockNumber }) => {
+			const { _property, _from, _to } = returnValues as Record<string, string>
+			return {
+				property: _property,
+				from: _from,
+				to: _to,
+				block_number: blockNumber,
+			}
+		})
+	})
+
+	const created = (
+		abi: readonly unknown[],
+		addresses: readonly string[],
+		field: string
+	) =>
+		memoize(async () => {
+			const events = await fetchLogs(abi, addresses, 'Create')
+			return events.map(({ returnValues, blockNumber }) => ({
+				address: (returnValues as Record<string, string>)[field],
+				block_number: blockNumber,
+			}))
+		})
+
+	return {
+		accountLockup: pageOf(
+			accountLockup,
+			(items) => ({ data: { account_lockup: items } }),
+			pageSize
+		),
+		propertyFactoryCreate: pageOf(
+			propertyFactoryCreate,
+			(items) => ({ data: { property_factory_create: items } }),
+			pageSize
+		),
+		propertyAuthentication: pageOf(
+			async () => (await authentications()).map((property) => ({ property })),
+			(items) => ({ data: { property_authentication: items } }),
+			pageSize
+		),
+		propertyTransfers,
+		markets: created(builtMarketFactory.abi, sources.marketFactory, '_market'),
+		policies: created(builtPolicyFactory.abi, sources.policyFactory, '_policy'),
+		metrics: created(
+			builtMetricsFactory.abi,
+			sources.metricsFactory,
+			'_metrics'
+		),
+	}
+}
+
+/**
+ * ADDRESS_BOOK provides the past contract addresses of the network.
+ * FROM_BLOCK, TO_BLOCK and LOG_RANGE limit the blocks to scan.
+ */
+export const createEventIndexerFromEnv = async (
+	configAddress: string,
+	libWeb3: Web3,
+	{
+		ADDRESS_BOOK: addressBook,
+		FROM_BLOCK: fromBlock,
+		TO_BLOCK: toBlock,
+		LOG_RANGE: step,
+	}: NodeJS.ProcessEnv = process.env
+): Promise<EventIndexer> => {
+	const book = addressBook
+		? loadAddressBook(addressBook, String(await libWeb3.eth.net.getId()))
+		: undefined
+	const sources = await createIndexerSources(configAddress, libWeb3, book)
+	return createEventIndexer(libWeb3, sources, {
+		fromBlock: fromBlock ? Number(fromBlock) : undefined,
+		toBlock: toBlock ? Number(toBlock) : undefined,
+		step: step ? Number(step) : undefined,
+	})
+}
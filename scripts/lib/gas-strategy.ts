@@ -0,0 +1,173 @@
+import BigNumber from 'bignumber.js'
+import Web3 from 'web3'
+import { ethGasStationFetcher } from '@devprotocol/util-ts'
+
+export type GasEstimator = () => Promise<number>
+export type LegacyGasFees = {
+	readonly gasPrice: number | string
+}
+export type EIP1559GasFees = {
+	readonly maxFeePerGas: string
+	readonly maxPriorityFeePerGas: string
+}
+export type GasFees = LegacyGasFees | EIP1559GasFees
+export type GasInfo = GasFees & {
+	readonly gas?: number | string
+}
+export type GasStrategy = {
+	readonly gasInfo: (estimate?: GasEstimator) => Promise<GasInfo>
+}
+
+/**
+ * The highest fee per gas the fees can pay, the gas price of a legacy transaction.
+ */
+export const feePerGas = (fees: GasFees): string =>
+	new BigNumber(
+		'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas
+	).toFixed()
+
+export const legacyFees =
+	(fetcher: () => Promise<number | string>) =>
+	async (): Promise<LegacyGasFees> => ({ gasPrice: await fetcher() })
+
+/**
+ * The gas price of `eth_gasPrice` of the node.
+ */
+export const nodeFees = (libWeb3: Web3) =>
+	legacyFees(async () => libWeb3.eth.getGasPrice())
+
+/**
+ * The max fee of twice the base fee of the latest block and the priority fee,
+ * which stays valid for 6 blocks with the base fee increasing at the most.
+ */
+export const eip1559Fees =
+	(
+		libWeb3: Web3,
+		priorityFee: number | string = Web3.utils.toWei('2', 'gwei')
+	) =>
+	async (): Promise<EIP1559GasFees> => {
+		const block = await libWeb3.eth.getBlock('latest')
+		const { baseFeePerGas } = block as { baseFeePerGas?: number | string }
+		if (typeof baseFeePerGas === 'undefined') {
+			throw new Error('the network does not support EIP-1559')
+		}
+
+		return {
+			maxFeePerGas: new BigNumber(baseFeePerGas)
+				.times(2)
+				.plus(priorityFee)
+				.toFixed(),
+			maxPriorityFeePerGas: new BigNumber(priorityFee).toFixed(),
+		}
+	}
+
+/**
+ * Fixed values for local nodes, same as the constants the scripts used to pass.
+ */
+export const staticGasStrategy = (
+	gas: number | string = 6721975,
+	gasPrice: number | string = 0
+): GasStrategy => ({
+	gasInfo: async () => ({ gas, gasPrice }),
+})
+
+/**
+ * Estimates the gas of each call and adds the margin to it.
+ * Calls without an estimator leave `gas` to the node.
+ */
+export const estimateGasStrategy = (
+	fees: () => Promise<GasFees>,
+	margin = 1.2
+): GasStrategy => ({
+	gasInfo: async (estimate) => {
+		const [gasFees, gas] = await Promise.all([
+			fees(),
+			estimate ? estimate() : Promise.resolve(undefined),
+		])
+		return typeof gas === 'undefined'
+			? gasFees
+			: {
+					...gasFees,
+					gas: new BigNumber(gas)
+						.times(margin)
+						.integerValue(BigNumber.ROUND_CEIL)
+						.toNumber(),
+			  }
+	},
+})
+
+/**
+ * Aborts instead of sending when the gas price, or the max fee per gas, exceeds the ceiling.
+ */
+export const withPriceCeiling = (
+	strategy: GasStrategy,
+	ceiling: number | string
+): GasStrategy => ({
+	gasInfo: async (estimate) => {
+		const info = await strategy.gasInfo(estimate)
+		const fee = new BigNumber(feePerGas(info))
+		if (fee.isGreaterThan(ceiling)) {
+			throw new Error(
+				`gas price ${fee.toFixed()} exceeds the ceiling ${new BigNumber(
+					ceiling
+				).toFixed()}`
+			)
+		}
+
+		return info
+	},
+})
+
+/**
+ * GAS_STRATEGY is one of `static`, `node`, `eip1559` or `egs`, the default.
+ * GAS_PRICE_CEILING aborts a transaction when its fee per gas is higher.
+ */
+export const createGasStrategyFromEnv = (
+	libWeb3: Web3,
+	{
+		GAS_STRATEGY: type = 'egs',
+		GAS_MARGIN: margin,
+		GAS_PRICE_CEILING: ceiling,
+		EGS_TOKEN: egsApiKey,
+	}: NodeJS.ProcessEnv = process.env
+): GasStrategy => {
+	const strategy = (() => {
+		switch (type) {
+			case 'static':
+				return staticGasStrategy()
+			case 'node':
+				return estimateGasStrategy(
+					nodeFees(libWeb3),
+					margin ? Number(margin) : undefined
+				)
+			case 'eip1559':
+				return estimateGasStrategy(
+					eip1559Fees(libWeb3),
+					margin ? Number(margin) : undefined
+				)
+			case 'egs':
+				if (!egsApiKey) {
+					throw new Error('EGS_TOKEN is required for the egs gas strategy')
+				}
+
+				return estimateGasStrategy(
+					legacyFees(ethGasStationFetcher(egsApiKey)),
+					margin ? Number(margin) : undefined
+				)
+			default:
+				throw new Error(`unknown gas strategy: ${type}`)
+		}
+	})()
+	return ceiling ? withPriceCeiling(strategy, ceiling) : strategy
+}
+
+/**
+ * The gas and gas price fetchers of DevCommonInstance taking the values from the strategy.
+ */
+export const strategyFetchers = (
+	strategy: GasStrategy,
+	defaultGas: number | string = 6721975
+): [() => Promise<number | string>, () => Promise<number | string>] => [
+	async () => strategy.gasInfo().then(({ gas }) => gas ?? defaultGas),
+	async () => strategy.gasInfo().then(feePerGas),
+]
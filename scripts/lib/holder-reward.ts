@@ -0,0 +1,239 @@
+import BigNumber from 'bignumber.js'
+import { div, Numeric, sub } from './policy-formula'
+
+export type LockupHoldersReward = {
+	readonly reward: Numeric
+	readonly cap: Numeric
+}
+export type HolderState = {
+	readonly balance: Numeric
+	readonly totalSupply: Numeric
+	readonly lastReward?: Numeric
+	readonly lastRewardCap?: Numeric
+	readonly pending?: Numeric
+	readonly lastWithdrawalPrice?: Numeric
+}
+type StoredHolderState = {
+	readonly lastReward: Numeric
+	readonly lastRewardCap: Numeric
+	readonly pending: Numeric
+	readonly lastWithdrawalPrice: Numeric
+}
+export type HolderRewardAmount = {
+	readonly amount: BigNumber
+	readonly price: BigNumber
+	readonly cap: BigNumber
+	readonly allReward: BigNumber
+}
+export type HolderRewardLedgerOptions = {
+	readonly author: string
+	readonly totalSupply: Numeric
+	readonly cumulativePrice?: Numeric
+	readonly balances?: Readonly<Record<string, Numeric>>
+}
+export type HolderRewardLedger = {
+	readonly balanceOf: (user: string) => BigNumber
+	readonly calculateRewardAmount: (
+		user: string,
+		lockup: LockupHoldersReward,
+		hasAssets?: boolean
+	) => HolderRewardAmount
+	readonly transfer: (
+		from: string,
+		to: string,
+		value: Numeric,
+		lockup: LockupHoldersReward
+	) => void
+	readonly withdraw: (
+		user: string,
+		lockup: LockupHoldersReward,
+		hasAssets?: boolean
+	) => BigNumber
+}
+
+const BASIS = new BigNumber('1000000000000000000')
+const ZERO = new BigNumber(0)
+
+const uint = (value: Numeric = 0): BigNumber => new BigNumber(value)
+
+/**
+ * Same as `Withdraw._calculateAllReward`.
+ */
+export const calculateAllReward = (
+	reward: Numeric,
+	{ balance, totalSupply, lastReward }: HolderState
+): BigNumber => {
+	const unitPrice = div(
+		sub(uint(reward), uint(lastReward)).times(BASIS),
+		uint(totalSupply)
+	)
+	return div(div(unitPrice.times(balance), BASIS), BASIS)
+}
+
+/**
+ * Same as `Withdraw._calculateCapped`.
+ */
+export const calculateCapped = (
+	cap: Numeric,
+	{ balance, totalSupply, lastRewardCap }: HolderState
+): BigNumber => {
+	const unitPriceCap = div(
+		sub(uint(cap), uint(lastRewardCap)),
+		uint(totalSupply)
+	)
+	return div(unitPriceCap.times(balance), BASIS)
+}
+
+/**
+ * Same as `Withdraw._calculateAmount`, a zero cap means no cap.
+ */
+export const calculateAmount = (
+	{ reward, cap }: LockupHoldersReward,
+	state: HolderState
+): HolderRewardAmount => {
+	const allReward = calculateAllReward(reward, state)
+	const capped = calculateCapped(cap, state)
+	return {
+		amount: capped.isZero() ? allReward : BigNumber.min(allReward, capped),
+		price: uint(reward),
+		cap: uint(cap),
+		allReward,
+	}
+}
+
+/**
+ * Same as `Withdraw.__legacyWithdrawableAmount`, the reward before DIP4.
+ */
+export const calculateLegacyAmount = (
+	cumulativePrice: Numeric,
+	{ balance, lastWithdrawalPrice }: HolderState
+): BigNumber =>
+	div(
+		sub(uint(cumulativePrice), uint(lastWithdrawalPrice)).times(balance),
+		BASIS
+	)
+
+/**
+ * Same as `Withdraw.calculateRewardAmount`.
+ */
+export const calculateWithdrawableAmount = (
+	lockup: LockupHoldersReward,
+	state: HolderState,
+	{
+		hasAssets = true,
+		cumulativePrice = 0,
+	}: { readonly hasAssets?: boolean; readonly cumulativePrice?: Numeric } = {}
+): HolderRewardAmount => {
+	const calculated = calculateAmount(lockup, state)
+	if (!hasAssets) {
+		return { ...calculated, amount: ZERO, allReward: ZERO }
+	}
+
+	return {
+		...calculated,
+		amount: calculated.amount
+			.plus(uint(state.pending))
+			.plus(calculateLegacyAmount(cumulativePrice, state)),
+	}
+}
+
+/**
+ * Replays the holder state of a Property as Withdraw stores it.
+ * The author holds the whole supply at first unless `balances` gives the initial ones,
+ * such as the share of the treasury minted by the Property, and every transfer moves
+ * the withdrawable amounts to the pending ones like `Withdraw.beforeBalanceChange`.
+ * The values of `lockup` are the results of `Lockup.calculateRewardAmount` at that time.
+ */
+export const createHolderRewardLedger = ({
+	author,
+	totalSupply,
+	cumulativePrice = 0,
+	balances: initialBalances = { [author]: totalSupply },
+}: HolderRewardLedgerOptions): HolderRewardLedger => {
+	const balances = new Map<string, BigNumber>(
+		Object.entries(initialBalances).map(([user, value]) => [
+			user.toLowerCase(),
+			uint(value),
+		])
+	)
+	const states = new Map<string, StoredHolderState>()
+
+	const balanceOf = (user: string): BigNumber =>
+		balances.get(user.toLowerCase()) ?? ZERO
+	const stateOf = (user: string): HolderState => ({
+		lastReward: ZERO,
+		lastRewardCap: ZERO,
+		pending: ZERO,
+		lastWithdrawalPrice: ZERO,
+		...states.get(user.toLowerCase()),
+		balance: balanceOf(user),
+		totalSupply,
+	})
+	const setState = (user: string, state: HolderState): void => {
+		states.set(user.toLowerCase(), {
+			lastReward: state.lastReward ?? ZERO,
+			lastRewardCap: state.lastRewardCap ?? ZERO,
+			pending: state.pending ?? ZERO,
+			lastWithdrawalPrice: state.lastWithdrawalPrice ?? ZERO,
+		})
+	}
+
+	const calculateRewardAmount = (
+		user: string,
+		lockup: LockupHoldersReward,
+		hasAssets = true
+	): HolderRewardAmount =>
+		calculateWithdrawableAmount(lockup, stateOf(user), {
+			hasAssets,
+			cumulativePrice,
+		})
+
+	const transfer = (
+		from: string,
+		to: string,
+		value: Numeric,
+		lockup: LockupHoldersReward
+	): void => {
+		const before = [from, to].map((user) => {
+			const state = stateOf(user)
+			return { user, state, ...calculateAmount(lockup, state) }
+		})
+		for (const { user, state, amount, price, cap } of before) {
+			setState(user, {
+				...state,
+				lastReward: price,
+				lastRewardCap: cap,
+				pending: uint(state.pending).plus(amount),
+			})
+		}
+
+		balances.set(from.toLowerCase(), sub(balanceOf(from), uint(value)))
+		balances.set(to.toLowerCase(), balanceOf(to).plus(value))
+	}
+
+	const withdraw = (
+		user: string,
+		lockup: LockupHoldersReward,
+		hasAssets = true
+	): BigNumber => {
+		const { amount, price, cap } = calculateRewardAmount(
+			user,
+			lockup,
+			hasAssets
+		)
+		if (amount.isZero()) {
+			throw new Error('withdraw value is 0')
+		}
+
+		setState(user, {
+			...stateOf(user),
+			lastReward: price,
+			lastRewardCap: cap,
+			pending: ZERO,
+			lastWithdrawalPrice: cumulativePrice,
+		})
+		return amount
+	}
+
+	return { balanceOf, calculateRewardAmount, transfer, withdraw }
+}
@@ -20,14 +20,18 @@ export class Allocator {
 			.require('Allocator')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new Allocator contract', allocator.address)
+		this._dev.recordDeployment('allocator', allocator)
 		return allocator
 	}
 
 	public async set(allocator: AllocatorInstance): Promise<void> {
-		await this._dev.addressConfig.setAllocator(
+		const tx = await this._dev.addressConfig.setAllocator(
 			allocator.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setAllocator.estimateGas(allocator.address)
+			)
 		)
 		console.log('set Allocator contract', allocator.address)
+		this._dev.recordReplacement('allocator', allocator.address, tx)
 	}
 }
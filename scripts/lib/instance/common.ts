@@ -4,23 +4,38 @@ import {
 	AddressConfigInstance,
 	DevInstance,
 } from '../../../types/truffle-contracts'
+import { DryRunRecorder, DryRunTransaction } from './dry-run'
+import { AddressBookWriter } from '../address-book'
+import { GasEstimator, GasInfo, GasStrategy } from '../gas-strategy'
 
 export class DevCommonInstance {
 	private readonly _artifacts: Truffle.Artifacts
 	private readonly _gasFetcher: () => Promise<number | string>
 	private readonly _gasPriceFetcher: () => Promise<number | string>
 	private readonly _configAddress: string
+	private readonly _recorder?: DryRunRecorder
 
 	private _addressConfig!: AddressConfigInstance
 	private _dev!: DevInstance
+	private _addressBook?: AddressBookWriter
+	private _gasStrategy?: GasStrategy
 
+	// eslint-disable-next-line max-params
 	constructor(
 		_artifacts: Truffle.Artifacts,
 		_configAddress: string,
 		_gasFetcher: () => Promise<number | string>,
-		_gasPriceFetcher: () => Promise<number | string>
+		_gasPriceFetcher: () => Promise<number | string>,
+		_dryRun = false
 	) {
-		this._artifacts = _artifacts
+		if (_dryRun) {
+			this._recorder = new DryRunRecorder()
+		}
+
+		this._artifacts =
+			typeof this._recorder === 'undefined'
+				? _artifacts
+				: this._recorder.wrapArtifacts(_artifacts)
 		this._configAddress = _configAddress
 		this._gasFetcher = _gasFetcher
 		this._gasPriceFetcher = _gasPriceFetcher
@@ -30,10 +45,24 @@ export class DevCommonInstance {
 		return this._artifacts
 	}
 
-	public get gasInfo(): Promise<{
-		gas: number | string
-		gasPrice: number | string
-	}> {
+	public get isDryRun(): boolean {
+		return typeof this._recorder !== 'undefined'
+	}
+
+	public get transactions(): readonly DryRunTransaction[] {
+		return this._recorder?.transactions ?? []
+	}
+
+	public get gasInfo(): Promise<GasInfo> {
+		return this.gasInfoFor()
+	}
+
+	public async gasInfoFor(estimate?: GasEstimator): Promise<GasInfo> {
+		if (typeof this._gasStrategy !== 'undefined') {
+			// The estimates fail on the contracts a dry run has not deployed
+			return this._gasStrategy.gasInfo(this.isDryRun ? undefined : estimate)
+		}
+
 		return Promise.all([this._gasFetcher(), this._gasPriceFetcher()])
 			.then(([gas, gasPrice]) => ({ gas, gasPrice }))
 			.catch((err: Error) => {
@@ -58,6 +87,50 @@ export class DevCommonInstance {
 		await this._loadDev()
 	}
 
+	public useGasStrategy(gasStrategy: GasStrategy): void {
+		this._gasStrategy = gasStrategy
+	}
+
+	public useAddressBook(addressBook?: AddressBookWriter): void {
+		this._addressBook = addressBook
+	}
+
+	public recordDeployment(
+		name: string,
+		instance: Truffle.ContractInstance
+	): void {
+		if (this.isDryRun) {
+			return
+		}
+
+		this._addressBook?.deployed(
+			name,
+			instance.address,
+			instance.transactionHash
+		)
+	}
+
+	public recordReplacement(
+		name: string,
+		address: string,
+		tx: Truffle.TransactionResponse
+	): void {
+		if (this.isDryRun) {
+			return
+		}
+
+		this._addressBook?.replaced(name, address, tx.receipt.blockNumber)
+	}
+
+	public report(): void {
+		if (typeof this._recorder === 'undefined') {
+			return
+		}
+
+		console.log('dry-run transactions')
+		console.log(this._recorder.report())
+	}
+
 	private async _loadAddressConfig(): Promise<void> {
 		this._addressConfig = await this._artifacts
 			.require('AddressConfig')
@@ -0,0 +1,229 @@
+import { AbiItem } from 'web3-utils/types'
+
+type TxOptions = {
+	readonly from?: string
+	readonly gas?: number | string
+	readonly gasPrice?: number | string
+	readonly maxFeePerGas?: string
+	readonly maxPriorityFeePerGas?: string
+	readonly value?: number | string
+}
+
+type WithAbi = { readonly abi: AbiItem[] }
+type DryRunInstance = Truffle.ContractInstance & WithAbi
+type TruffleContract = Truffle.Contract<DryRunInstance> & WithAbi
+type DryRunContract = Pick<Truffle.Contract<DryRunInstance>, 'deployed'> & {
+	// Truffle resolves the instance after checking the code at the address, unlike the typings
+	readonly at: (address: string) => Promise<DryRunInstance>
+	readonly new: (...args: unknown[]) => Promise<DryRunInstance>
+}
+
+// Same as the methods of the truffle instances that send a transaction
+type TransactionMethod = {
+	(...args: unknown[]): Promise<Truffle.TransactionResponse>
+	readonly call: (...args: unknown[]) => Promise<unknown>
+	readonly sendTransaction: (...args: unknown[]) => Promise<string>
+	readonly estimateGas: (...args: unknown[]) => Promise<number>
+}
+
+export type DryRunTransaction = {
+	readonly target: string
+	readonly address: string
+	readonly method: string
+	readonly args: readonly unknown[]
+	readonly gas?: number | string
+	readonly gasPrice?: number | string
+	readonly maxFeePerGas?: string
+	readonly maxPriorityFeePerGas?: string
+}
+
+const isTxOptions = (value: unknown): value is TxOptions =>
+	typeof value === 'object' &&
+	value !== null &&
+	!Array.isArray(value) &&
+	[
+		'from',
+		'gas',
+		'gasPrice',
+		'maxFeePerGas',
+		'maxPriorityFeePerGas',
+		'value',
+	].some((key) => key in value)
+
+const splitArgs = (
+	args: readonly unknown[]
+): [readonly unknown[], TxOptions] => {
+	const last = args[args.length - 1]
+	return isTxOptions(last) ? [args.slice(0, -1), last] : [args, {}]
+}
+
+const findFunction = (abi: readonly AbiItem[], method: string) =>
+	abi.find((item) => item.type === 'function' && item.name === method)
+
+const isConstant = (item: AbiItem): boolean =>
+	item.constant === true ||
+	item.stateMutability === 'view' ||
+	item.stateMutability === 'pure'
+
+const formatFees = ({
+	gasPrice,
+	maxFeePerGas,
+	maxPriorityFeePerGas,
+}: Pick<
+	DryRunTransaction,
+	'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'
+>): string =>
+	typeof maxFeePerGas === 'undefined'
+		? `gasPrice: ${gasPrice ?? '-'}`
+		: `maxFeePerGas: ${maxFeePerGas} maxPriorityFeePerGas: ${
+				maxPriorityFeePerGas ?? '-'
+		  }`
+
+const notDeployed =
+	(name: string, method: string) => async (): Promise<never> => {
+		throw new Error(`${name}.${method} cannot be called before deployment`)
+	}
+
+export class DryRunRecorder {
+	private readonly _transactions: DryRunTransaction[] = []
+	private _deployed = 0
+
+	public get transactions(): readonly DryRunTransaction[] {
+		return this._transactions
+	}
+
+	public wrapArtifacts(artifacts: Truffle.Artifacts): Truffle.Artifacts {
+		return {
+			...artifacts,
+			require: <T>(name: string) =>
+				this._wrapContract(name, artifacts.require<T & TruffleContract>(name)),
+		}
+	}
+
+	public report(): string {
+		return this._transactions
+			.map(
+				({ target, address, method, args, gas, ...fees }, i) =>
+					`#${i + 1} ${target}(${address}).${method}(${args
+						.map((arg) => JSON.stringify(arg))
+						.join(', ')}) gas: ${gas ?? '-'} ${formatFees(fees)}`
+			)
+			.join('\n')
+	}
+
+	private _record(
+		target: string,
+		address: string,
+		method: string,
+		args: readonly unknown[]
+	): void {
+		const [values, { gas, gasPrice, maxFeePerGas, maxPriorityFeePerGas }] =
+			splitArgs(args)
+		this._transactions.push({
+			target,
+			address,
+			method,
+			args: values,
+			gas,
+			gasPrice,
+			maxFeePerGas,
+			maxPriorityFeePerGas,
+		})
+	}
+
+	/**
+	 * Wraps the truffle contract of the same type, replacing the functions that deploy or load the instances.
+	 */
+	private _wrapContract<T extends TruffleContract>(
+		name: string,
+		contract: T
+	): T {
+		const wrapper: DryRunContract = {
+			deployed: async () =>
+				this._wrapInstance(name, await contract.deployed(), true),
+			at: async (address: string) =>
+				// eslint-disable-next-line @typescript-eslint/await-thenable
+				this._wrapInstance(name, await contract.at(address), true),
+			new: async (...args: unknown[]) => {
+				this._deployed += 1
+				const address = `<new ${name} #${this._deployed}>`
+				this._record(name, address, 'new', args)
+				return this._wrapInstance(
+					name,
+					{
+						address,
+						abi: contract.abi,
+						transactionHash: '',
+						contract: undefined,
+					},
+					false
+				)
+			},
+		}
+		const replaced = new Map<PropertyKey, unknown>(Object.entries(wrapper))
+		return new Proxy(contract, {
+			get: (target, prop, receiver) =>
+				replaced.has(prop)
+					? replaced.get(prop)
+					: Reflect.get(target, prop, receiver),
+		})
+	}
+
+	private _wrapInstance(
+		name: string,
+		instance: DryRunInstance,
+		deployed: boolean
+	): DryRunInstance {
+		return new Proxy(instance, {
+			get: (target, prop, receiver) => {
+				const item =
+					typeof prop === 'string' ? findFunction(target.abi, prop) : undefined
+				if (typeof item === 'undefined') {
+					return Reflect.get(target, prop, receiver)
+				}
+
+				if (!isConstant(item)) {
+					return this._wrapMethod(
+						name,
+						target.address,
+						String(prop),
+						deployed ? Reflect.get(target, prop, receiver) : undefined
+					)
+				}
+
+				if (!deployed) {
+					return notDeployed(name, String(prop))
+				}
+
+				return Reflect.get(target, prop, receiver)
+			},
+		})
+	}
+
+	/**
+	 * Records the transactions instead of sending them.
+	 * `call` and `estimateGas` run on the node, and fail on the instances the dry run has not deployed.
+	 */
+	private _wrapMethod(
+		name: string,
+		address: string,
+		method: string,
+		deployedMethod?: TransactionMethod
+	): TransactionMethod {
+		const rejected = notDeployed(name, method)
+		return Object.assign(
+			async (...args: unknown[]) => {
+				this._record(name, address, method, args)
+				return { tx: '', receipt: {}, logs: [] }
+			},
+			{
+				call: deployedMethod?.call ?? rejected,
+				sendTransaction: async (...args: unknown[]) => {
+					this._record(name, address, method, args)
+					return ''
+				},
+				estimateGas: deployedMethod?.estimateGas ?? rejected,
+			}
+		)
+	}
+}
@@ -27,15 +27,19 @@ export class Lockup {
 			.require('Lockup')
 			.new(this._dev.addressConfig.address, devMinter, await this._dev.gasInfo)
 		console.log('new Lockup contract', lockup.address)
+		this._dev.recordDeployment('lockup', lockup)
 		return lockup
 	}
 
 	public async set(lockup: InstanceOfLockup): Promise<void> {
-		await this._dev.addressConfig.setLockup(
+		const tx = await this._dev.addressConfig.setLockup(
 			lockup.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setLockup.estimateGas(lockup.address)
+			)
 		)
 		console.log('set Lockup contract', lockup.address)
+		this._dev.recordReplacement('lockup', lockup.address, tx)
 	}
 
 	public async changeOwner(
@@ -44,8 +48,18 @@ export class Lockup {
 	): Promise<void> {
 		const storageAddress = await before.getStorageAddress()
 		console.log(`storage address ${storageAddress}`)
-		await after.setStorage(storageAddress, await this._dev.gasInfo)
-		await before.changeOwner(after.address, await this._dev.gasInfo)
+		await after.setStorage(
+			storageAddress,
+			await this._dev.gasInfoFor(async () =>
+				after.setStorage.estimateGas(storageAddress)
+			)
+		)
+		await before.changeOwner(
+			after.address,
+			await this._dev.gasInfoFor(async () =>
+				before.changeOwner.estimateGas(after.address)
+			)
+		)
 
 		console.log(`change owner from ${before.address} to ${after.address}`)
 	}
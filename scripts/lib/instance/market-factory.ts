@@ -22,14 +22,20 @@ export class MarketFactry {
 			.require('MarketFactory')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new MarketFactory contract', marketFactory.address)
+		this._dev.recordDeployment('marketFactory', marketFactory)
 		return marketFactory
 	}
 
 	public async set(marketFactory: MarketFactoryInstance): Promise<void> {
-		await this._dev.addressConfig.setMarketFactory(
+		const tx = await this._dev.addressConfig.setMarketFactory(
 			marketFactory.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setMarketFactory.estimateGas(
+					marketFactory.address
+				)
+			)
 		)
 		console.log('set MarketFactory contract', marketFactory.address)
+		this._dev.recordReplacement('marketFactory', marketFactory.address, tx)
 	}
 }
@@ -22,15 +22,19 @@ export class MarketGroup {
 			.require('MarketGroup')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new MarketGroup contract', marketGroup.address)
+		this._dev.recordDeployment('marketGroup', marketGroup)
 		return marketGroup
 	}
 
 	public async set(marketGroup: MarketGroupInstance): Promise<void> {
-		await this._dev.addressConfig.setMarketGroup(
+		const tx = await this._dev.addressConfig.setMarketGroup(
 			marketGroup.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setMarketGroup.estimateGas(marketGroup.address)
+			)
 		)
 		console.log('set MarketGroup contract', marketGroup.address)
+		this._dev.recordReplacement('marketGroup', marketGroup.address, tx)
 	}
 
 	public async changeOwner(
@@ -22,14 +22,20 @@ export class MetricsFactory {
 			.require('MetricsFactory')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new MetricsFactory contract', metricsFactory.address)
+		this._dev.recordDeployment('metricsFactory', metricsFactory)
 		return metricsFactory
 	}
 
 	public async set(metricsFactory: MetricsFactoryInstance): Promise<void> {
-		await this._dev.addressConfig.setMetricsFactory(
+		const tx = await this._dev.addressConfig.setMetricsFactory(
 			metricsFactory.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setMetricsFactory.estimateGas(
+					metricsFactory.address
+				)
+			)
 		)
 		console.log('set MetricsFactory contract', metricsFactory.address)
+		this._dev.recordReplacement('metricsFactory', metricsFactory.address, tx)
 	}
 }
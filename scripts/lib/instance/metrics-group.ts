@@ -22,15 +22,21 @@ export class MetricsGroup {
 			.require('MetricsGroup')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new MetricsGroup contract', metricsGroup.address)
+		this._dev.recordDeployment('metricsGroup', metricsGroup)
 		return metricsGroup
 	}
 
 	public async set(metricsGroup: MetricsGroupInstance): Promise<void> {
-		await this._dev.addressConfig.setMetricsGroup(
+		const tx = await this._dev.addressConfig.setMetricsGroup(
 			metricsGroup.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setMetricsGroup.estimateGas(
+					metricsGroup.address
+				)
+			)
 		)
 		console.log('set MetricsGroup contract', metricsGroup.address)
+		this._dev.recordReplacement('metricsGroup', metricsGroup.address, tx)
 	}
 
 	public async changeOwner(
@@ -39,8 +45,18 @@ export class MetricsGroup {
 	): Promise<void> {
 		const storageAddress = await before.getStorageAddress()
 		console.log(`storage address ${storageAddress}`)
-		await after.setStorage(storageAddress, await this._dev.gasInfo)
-		await before.changeOwner(after.address, await this._dev.gasInfo)
+		await after.setStorage(
+			storageAddress,
+			await this._dev.gasInfoFor(async () =>
+				after.setStorage.estimateGas(storageAddress)
+			)
+		)
+		await before.changeOwner(
+			after.address,
+			await this._dev.gasInfoFor(async () =>
+				before.changeOwner.estimateGas(after.address)
+			)
+		)
 
 		console.log(`change owner from ${before.address} to ${after.address}`)
 	}
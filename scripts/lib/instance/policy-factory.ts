@@ -22,14 +22,20 @@ export class PolicyFactory {
 			.require('PolicyFactory')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new PolicyFactory contract', policyFactory.address)
+		this._dev.recordDeployment('policyFactory', policyFactory)
 		return policyFactory
 	}
 
 	public async set(policyFactory: PolicyFactoryInstance): Promise<void> {
-		await this._dev.addressConfig.setPolicyFactory(
+		const tx = await this._dev.addressConfig.setPolicyFactory(
 			policyFactory.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setPolicyFactory.estimateGas(
+					policyFactory.address
+				)
+			)
 		)
 		console.log('set PolicyFactory contract', policyFactory.address)
+		this._dev.recordReplacement('policyFactory', policyFactory.address, tx)
 	}
 }
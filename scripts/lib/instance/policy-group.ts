@@ -22,15 +22,19 @@ export class PolicyGroup {
 			.require('PolicyGroup')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new PolicyGroup contract', policyGroup.address)
+		this._dev.recordDeployment('policyGroup', policyGroup)
 		return policyGroup
 	}
 
 	public async set(policyGroup: PolicyGroupInstance): Promise<void> {
-		await this._dev.addressConfig.setPolicyGroup(
+		const tx = await this._dev.addressConfig.setPolicyGroup(
 			policyGroup.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setPolicyGroup.estimateGas(policyGroup.address)
+			)
 		)
 		console.log('set PolicyGroup contract', policyGroup.address)
+		this._dev.recordReplacement('policyGroup', policyGroup.address, tx)
 	}
 
 	public async changeOwner(
@@ -39,8 +43,18 @@ export class PolicyGroup {
 	): Promise<void> {
 		const storageAddress = await before.getStorageAddress()
 		console.log(`storage address ${storageAddress}`)
-		await after.setStorage(storageAddress, await this._dev.gasInfo)
-		await before.changeOwner(after.address, await this._dev.gasInfo)
+		await after.setStorage(
+			storageAddress,
+			await this._dev.gasInfoFor(async () =>
+				after.setStorage.estimateGas(storageAddress)
+			)
+		)
+		await before.changeOwner(
+			after.address,
+			await this._dev.gasInfoFor(async () =>
+				before.changeOwner.estimateGas(after.address)
+			)
+		)
 
 		console.log(`change owner from ${before.address} to ${after.address}`)
 	}
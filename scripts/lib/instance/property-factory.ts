@@ -22,14 +22,20 @@ export class PropertyFactory {
 			.require('PropertyFactory')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new PropertyFactory contract', propertyFactory.address)
+		this._dev.recordDeployment('propertyFactory', propertyFactory)
 		return propertyFactory
 	}
 
 	public async set(propertyFactory: PropertyFactoryInstance): Promise<void> {
-		await this._dev.addressConfig.setPropertyFactory(
+		const tx = await this._dev.addressConfig.setPropertyFactory(
 			propertyFactory.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setPropertyFactory.estimateGas(
+					propertyFactory.address
+				)
+			)
 		)
 		console.log('set PropertyFactory contract', propertyFactory.address)
+		this._dev.recordReplacement('propertyFactory', propertyFactory.address, tx)
 	}
 }
@@ -22,15 +22,21 @@ export class PropertyGroup {
 			.require('PropertyGroup')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new PropertyGroup contract', propertyGroup.address)
+		this._dev.recordDeployment('propertyGroup', propertyGroup)
 		return propertyGroup
 	}
 
 	public async set(propertyGroup: PropertyGroupInstance): Promise<void> {
-		await this._dev.addressConfig.setPropertyGroup(
+		const tx = await this._dev.addressConfig.setPropertyGroup(
 			propertyGroup.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setPropertyGroup.estimateGas(
+					propertyGroup.address
+				)
+			)
 		)
 		console.log('set PropertyGroup contract', propertyGroup.address)
+		this._dev.recordReplacement('propertyGroup', propertyGroup.address, tx)
 	}
 
 	public async changeOwner(
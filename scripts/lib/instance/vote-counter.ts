@@ -22,15 +22,19 @@ export class VoteCounter {
 			.require('VoteCounter')
 			.new(this._dev.addressConfig.address, await this._dev.gasInfo)
 		console.log('new VoteCounter contract', voteCounter.address)
+		this._dev.recordDeployment('voteCounter', voteCounter)
 		return voteCounter
 	}
 
 	public async set(voteCounter: VoteCounterInstance): Promise<void> {
-		await this._dev.addressConfig.setVoteCounter(
+		const tx = await this._dev.addressConfig.setVoteCounter(
 			voteCounter.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setVoteCounter.estimateGas(voteCounter.address)
+			)
 		)
 		console.log('set VoteCounter contract', voteCounter.address)
+		this._dev.recordReplacement('voteCounter', voteCounter.address, tx)
 	}
 
 	public async changeOwner(
@@ -39,8 +43,18 @@ export class VoteCounter {
 	): Promise<void> {
 		const storageAddress = await before.getStorageAddress()
 		console.log(`storage address ${storageAddress}`)
-		await after.setStorage(storageAddress, await this._dev.gasInfo)
-		await before.changeOwner(after.address, await this._dev.gasInfo)
+		await after.setStorage(
+			storageAddress,
+			await this._dev.gasInfoFor(async () =>
+				after.setStorage.estimateGas(storageAddress)
+			)
+		)
+		await before.changeOwner(
+			after.address,
+			await this._dev.gasInfoFor(async () =>
+				before.changeOwner.estimateGas(after.address)
+			)
+		)
 
 		console.log(`change owner from ${before.address} to ${after.address}`)
 	}
@@ -30,15 +30,19 @@ export class Withdraw {
 			.require('Withdraw')
 			.new(this._dev.addressConfig.address, devMinter, await this._dev.gasInfo)
 		console.log('new Withdraw contract', withdraw.address)
+		this._dev.recordDeployment('withdraw', withdraw)
 		return withdraw
 	}
 
 	public async set(withdraw: InstanceOfWithdraw): Promise<void> {
-		await this._dev.addressConfig.setWithdraw(
+		const tx = await this._dev.addressConfig.setWithdraw(
 			withdraw.address,
-			await this._dev.gasInfo
+			await this._dev.gasInfoFor(async () =>
+				this._dev.addressConfig.setWithdraw.estimateGas(withdraw.address)
+			)
 		)
 		console.log('set Withdraw contract', withdraw.address)
+		this._dev.recordReplacement('withdraw', withdraw.address, tx)
 	}
 
 	public async changeOwner(
@@ -47,8 +51,18 @@ export class Withdraw {
 	): Promise<void> {
 		const storageAddress = await before.getStorageAddress()
 		console.log(`storage address ${storageAddress}`)
-		await after.setStorage(storageAddress, await this._dev.gasInfo)
-		await before.changeOwner(after.address, await this._dev.gasInfo)
+		await after.setStorage(
+			storageAddress,
+			await this._dev.gasInfoFor(async () =>
+				after.setStorage.estimateGas(storageAddress)
+			)
+		)
+		await before.changeOwner(
+			after.address,
+			await this._dev.gasInfoFor(async () =>
+				before.changeOwner.estimateGas(after.address)
+			)
+		)
 
 		console.log(`change owner from ${before.address} to ${after.address}`)
 	}
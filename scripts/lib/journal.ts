@@ -0,0 +1,140 @@
+import { appendFileSync, existsSync, readFileSync } from 'fs'
+import Web3 from 'web3'
+
+export type JournalState = 'pending' | 'sent' | 'confirmed'
+export type JournalEntry = {
+	readonly key: string
+	readonly state: JournalState
+	readonly hash?: string
+	// Every hash sent for the same nonce, since a speed-up replaces the transaction
+	readonly hashes?: readonly string[]
+}
+export type Journal = {
+	readonly get: (key: string) => JournalEntry | undefined
+	readonly entries: () => readonly JournalEntry[]
+	readonly pending: (key: string) => void
+	readonly sent: (key: string, hash: string) => void
+	readonly confirmed: (key: string, hash?: string) => void
+}
+
+export type JournalReconcilerOptions = {
+	readonly timeout?: number
+	readonly pollInterval?: number
+}
+
+export const journalKey = (...values: readonly string[]): string =>
+	values.map((x) => x.toLowerCase()).join(':')
+
+const load = (path: string): Map<string, JournalEntry> =>
+	new Map(
+		existsSync(path)
+			? readFileSync(path, 'utf8')
+					.split('\n')
+					.filter((line) => line.trim() !== '')
+					.map((line) => JSON.parse(line) as JournalEntry)
+					.map((entry) => [entry.key, entry])
+			: []
+	)
+
+const sleep = async (ms: number): Promise<void> =>
+	new Promise((resolve) => {
+		setTimeout(resolve, ms)
+	})
+
+const sentHashes = ({ hash, hashes }: JournalEntry): readonly string[] =>
+	hashes ?? (typeof hash === 'string' ? [hash] : [])
+
+export const createJournal = (path: string): Journal => {
+	const state = load(path)
+	const write = (entry: JournalEntry): void => {
+		state.set(entry.key, entry)
+		appendFileSync(path, `${JSON.stringify(entry)}\n`)
+	}
+
+	return {
+		get: (key) => state.get(key),
+		entries: () => [...state.values()],
+		pending: (key) => {
+			write({ key, state: 'pending' })
+		},
+		sent: (key, hash) => {
+			const current = state.get(key)
+			const hashes =
+				current?.state === 'sent' ? sentHashes(current).concat(hash) : [hash]
+			write({ key, state: 'sent', hash, hashes })
+		},
+		confirmed: (key, hash) => {
+			write({ key, state: 'confirmed', hash })
+		},
+	}
+}
+
+/**
+ * Checks the sent entries until all of them are mined or dropped, or the timeout.
+ * The entries still in the mempool after that are left `sent`.
+ */
+export const createJournalReconciler = (
+	journal: Journal,
+	libWeb3: Web3,
+	{ timeout = 600000, pollInterval = 5000 }: JournalReconcilerOptions = {}
+) => {
+	const reconcile = async (entry: JournalEntry): Promise<JournalEntry> => {
+		const { key } = entry
+		const hashes = sentHashes(entry)
+		const receipts = await Promise.all(
+			hashes.map(async (hash) => libWeb3.eth.getTransactionReceipt(hash))
+		)
+		const receipt = receipts.find((x) => x !== null)
+		if (receipt) {
+			if (receipt.status) {
+				journal.confirmed(key, receipt.transactionHash)
+			} else {
+				journal.pending(key)
+			}
+
+			return journal.get(key)!
+		}
+
+		// Pending again only when none of the replacements is known to the node
+		const txs = await Promise.all(
+			hashes.map(async (hash) => libWeb3.eth.getTransaction(hash))
+		)
+		if (txs.every((tx) => !tx)) {
+			journal.pending(key)
+		}
+
+		return journal.get(key)!
+	}
+
+	return async (): Promise<readonly JournalEntry[]> => {
+		const keys = unconfirmedJournalEntries(journal).map(({ key }) => key)
+		const deadline = Date.now() + timeout
+		for (;;) {
+			// eslint-disable-next-line no-await-in-loop
+			await Promise.all(unconfirmedJournalEntries(journal).map(reconcile))
+			if (
+				unconfirmedJournalEntries(journal).length === 0 ||
+				Date.now() > deadline
+			) {
+				return keys.map((key) => journal.get(key)!)
+			}
+
+			// eslint-disable-next-line no-await-in-loop
+			await sleep(pollInterval)
+		}
+	}
+}
+
+/**
+ * Only the confirmed transactions are done, the sent ones may still be dropped.
+ */
+export const isJournalDone = (journal: Journal, key: string): boolean =>
+	journal.get(key)?.state === 'confirmed'
+
+export const isJournalInFlight = (journal: Journal, key: string): boolean =>
+	journal.get(key)?.state === 'sent'
+
+export const unconfirmedJournalEntries = (
+	journal: Journal
+): readonly JournalEntry[] =>
+	journal.entries().filter(({ state }) => state === 'sent')
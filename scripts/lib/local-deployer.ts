@@ -0,0 +1,145 @@
+export type ProtocolAddresses = {
+	readonly addressConfig: string
+	readonly token: string
+	readonly devMinter: string
+	readonly allocator: string
+	readonly marketFactory: string
+	readonly marketGroup: string
+	readonly metricsFactory: string
+	readonly metricsGroup: string
+	readonly policyFactory: string
+	readonly policyGroup: string
+	readonly propertyFactory: string
+	readonly propertyGroup: string
+	readonly voteCounter: string
+	readonly lockup: string
+	readonly withdraw: string
+	readonly policy: string
+}
+export type DeployOptions = {
+	readonly from: string
+	readonly treasury?: string
+	readonly capSetter?: string
+	readonly cap?: string
+	readonly mint?: string
+}
+
+const log = (name: string, address: string): void => {
+	console.log(`new ${name} contract`, address)
+}
+
+export const deployProtocol = async (
+	_artifacts: Truffle.Artifacts,
+	{
+		from,
+		treasury = from,
+		capSetter = from,
+		cap = '115792089237316000000000000000000000',
+		mint = '0',
+	}: DeployOptions
+): Promise<ProtocolAddresses> => {
+	const tx = { from }
+	const contract = _artifacts.require
+
+	const addressConfig = await contract('AddressConfig').new(tx)
+	log('AddressConfig', addressConfig.address)
+	const config = addressConfig.address
+
+	// Dev and DevMinter
+	const dev = await contract('Dev').new(config, tx)
+	log('Dev', dev.address)
+	await addressConfig.setToken(dev.address, tx)
+	const devMinter = await contract('DevMinter').new(config, tx)
+	log('DevMinter', devMinter.address)
+	await dev.addMinter(devMinter.address, tx)
+
+	// Allocator
+	const allocator = await contract('Allocator').new(config, tx)
+	log('Allocator', allocator.address)
+	await addressConfig.setAllocator(allocator.address, tx)
+
+	// Market
+	const marketFactory = await contract('MarketFactory').new(config, tx)
+	log('MarketFactory', marketFactory.address)
+	await addressConfig.setMarketFactory(marketFactory.address, tx)
+	const marketGroup = await contract('MarketGroup').new(config, tx)
+	log('MarketGroup', marketGroup.address)
+	await addressConfig.setMarketGroup(marketGroup.address, tx)
+	await marketGroup.createStorage(tx)
+
+	// Metrics
+	const metricsFactory = await contract('MetricsFactory').new(config, tx)
+	log('MetricsFactory', metricsFactory.address)
+	await addressConfig.setMetricsFactory(metricsFactory.address, tx)
+	const metricsGroup = await contract('MetricsGroup').new(config, tx)
+	log('MetricsGroup', metricsGroup.address)
+	await addressConfig.setMetricsGroup(metricsGroup.address, tx)
+	await metricsGroup.createStorage(tx)
+
+	// Policy
+	const policyFactory = await contract('PolicyFactory').new(config, tx)
+	log('PolicyFactory', policyFactory.address)
+	await addressConfig.setPolicyFactory(policyFactory.address, tx)
+	const policyGroup = await contract('PolicyGroup').new(config, tx)
+	log('PolicyGroup', policyGroup.address)
+	await addressConfig.setPolicyGroup(policyGroup.address, tx)
+	await policyGroup.createStorage(tx)
+
+	// Property
+	const propertyFactory = await contract('PropertyFactory').new(config, tx)
+	log('PropertyFactory', propertyFactory.address)
+	await addressConfig.setPropertyFactory(propertyFactory.address, tx)
+	const propertyGroup = await contract('PropertyGroup').new(config, tx)
+	log('PropertyGroup', propertyGroup.address)
+	await addressConfig.setPropertyGroup(propertyGroup.address, tx)
+	await propertyGroup.createStorage(tx)
+
+	// Vote
+	const voteCounter = await contract('VoteCounter').new(config, tx)
+	log('VoteCounter', voteCounter.address)
+	await addressConfig.setVoteCounter(voteCounter.address, tx)
+	await voteCounter.createStorage(tx)
+
+	// Lockup and Withdraw
+	const lockup = await contract('Lockup').new(config, devMinter.address, tx)
+	log('Lockup', lockup.address)
+	await addressConfig.setLockup(lockup.address, tx)
+	await lockup.createStorage(tx)
+	const withdraw = await contract('Withdraw').new(config, devMinter.address, tx)
+	log('Withdraw', withdraw.address)
+	await addressConfig.setWithdraw(withdraw.address, tx)
+	await withdraw.createStorage(tx)
+
+	// The first policy becomes the current policy
+	const policy = await contract('DIP55').new(config, tx)
+	log('DIP55', policy.address)
+	await policy.setTreasury(treasury, tx)
+	await policy.setCapSetter(capSetter, tx)
+	await policyFactory.create(policy.address, tx)
+	if (capSetter === from) {
+		await lockup.updateCap(cap, tx)
+	}
+
+	if (mint !== '0') {
+		await dev.mint(from, mint, tx)
+	}
+
+	return {
+		addressConfig: addressConfig.address,
+		token: dev.address,
+		devMinter: devMinter.address,
+		allocator: allocator.address,
+		marketFactory: marketFactory.address,
+		marketGroup: marketGroup.address,
+		metricsFactory: metricsFactory.address,
+		metricsGroup: metricsGroup.address,
+		policyFactory: policyFactory.address,
+		policyGroup: policyGroup.address,
+		propertyFactory: propertyFactory.address,
+		propertyGroup: propertyGroup.address,
+		voteCounter: voteCounter.address,
+		lockup: lockup.address,
+		withdraw: withdraw.address,
+		policy: policy.address,
+	}
+}
@@ -0,0 +1,143 @@
+import BigNumber from 'bignumber.js'
+import Web3 from 'web3'
+import { IPolicyInstance } from '../../types/truffle-contracts'
+import { DevCommonInstance } from './instance/common'
+
+export type PolicyGrid = {
+	readonly lockups: readonly string[]
+	readonly assets: readonly string[]
+	readonly supplies: readonly string[]
+}
+export type PolicyDiffRow = {
+	readonly method: string
+	readonly args: readonly string[]
+	readonly before: string
+	readonly after: string
+	readonly difference: string
+	readonly changed: boolean
+}
+type Sample = {
+	readonly method: string
+	readonly args: readonly string[]
+	readonly call: (policy: IPolicyInstance) => Promise<unknown>
+}
+
+const amount = (value: number): string =>
+	new BigNumber(1e18).times(value).toFixed()
+
+export const DEFAULT_POLICY_GRID: PolicyGrid = {
+	lockups: [
+		'0',
+		amount(100000),
+		amount(1000000),
+		amount(2000000),
+		amount(5000000),
+	],
+	assets: ['0', '1', '100', '1000', '10000'],
+	supplies: ['0', amount(1), amount(1000), amount(10000000)],
+}
+
+const product = <A, B>(as: readonly A[], bs: readonly B[]): Array<[A, B]> =>
+	as.flatMap((a) => bs.map((b): [A, B] => [a, b]))
+
+/**
+ * The grid values are used as follows:
+ * - `rewards(lockups, assets)`
+ * - `holdersShare(supplies, lockups)`
+ * - `authenticationFee(assets, lockups)`
+ * - `marketApproval(lockups, lockups)` and `policyApproval(lockups, lockups)`
+ * - `shareOfTreasury(supplies)`
+ */
+const createSamples = ({ lockups, assets, supplies }: PolicyGrid): Sample[] => [
+	...product(lockups, assets).map(([l, a]) => ({
+		method: 'rewards',
+		args: [l, a],
+		call: async (policy: IPolicyInstance) => policy.rewards(l, a),
+	})),
+	...product(supplies, lockups).map(([s, l]) => ({
+		method: 'holdersShare',
+		args: [s, l],
+		call: async (policy: IPolicyInstance) => policy.holdersShare(s, l),
+	})),
+	...product(assets, lockups).map(([a, l]) => ({
+		method: 'authenticationFee',
+		args: [a, l],
+		call: async (policy: IPolicyInstance) => policy.authenticationFee(a, l),
+	})),
+	...product(lockups, lockups).map(([up, negative]) => ({
+		method: 'marketApproval',
+		args: [up, negative],
+		call: async (policy: IPolicyInstance) =>
+			policy.marketApproval(up, negative),
+	})),
+	...product(lockups, lockups).map(([up, negative]) => ({
+		method: 'policyApproval',
+		args: [up, negative],
+		call: async (policy: IPolicyInstance) =>
+			policy.policyApproval(up, negative),
+	})),
+	...supplies.map((s) => ({
+		method: 'shareOfTreasury',
+		args: [s],
+		call: async (policy: IPolicyInstance) => policy.shareOfTreasury(s),
+	})),
+]
+
+const callSample = async (
+	sample: Sample,
+	policy: IPolicyInstance
+): Promise<string> =>
+	sample
+		.call(policy)
+		.then((x) => String(x))
+		.catch(() => 'revert')
+
+const difference = (before: string, after: string): string => {
+	const a = new BigNumber(before)
+	const b = new BigNumber(after)
+	return a.isNaN() || b.isNaN() ? '' : b.minus(a).toFixed()
+}
+
+export const createPolicyResolver =
+	(dev: DevCommonInstance) =>
+	async (target: string): Promise<IPolicyInstance> => {
+		if (Web3.utils.isAddress(target)) {
+			return dev.artifacts.require('IPolicy').at(target)
+		}
+
+		const policy: IPolicyInstance = await dev.artifacts
+			.require(target)
+			.new(dev.addressConfig.address, await dev.gasInfo)
+		console.log(`new ${target} contract`, policy.address)
+		return policy
+	}
+
+export const diffPolicies = async (
+	before: IPolicyInstance,
+	after: IPolicyInstance,
+	grid: PolicyGrid = DEFAULT_POLICY_GRID
+): Promise<PolicyDiffRow[]> =>
+	Promise.all(
+		createSamples(grid).map(async (sample) => {
+			const [a, b] = await Promise.all([
+				callSample(sample, before),
+				callSample(sample, after),
+			])
+			return {
+				method: sample.method,
+				args: sample.args,
+				before: a,
+				after: b,
+				difference: difference(a, b),
+				changed: a !== b,
+			}
+		})
+	)
+
+export const policyDiffToCsv = (rows: readonly PolicyDiffRow[]): string =>
+	[
+		'method,args,before,after,difference,changed',
+		...rows.map(({ method, args, before, after, difference, changed }) =>
+			[method, args.join(' '), before, after, difference, changed].join(',')
+		),
+	].join('\n')
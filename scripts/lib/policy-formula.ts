@@ -0,0 +1,133 @@
+import BigNumber from 'bignumber.js'
+
+export type Numeric = BigNumber | string | number
+export type PolicyFormula = {
+	readonly rewards: (
+		lockups: Numeric,
+		assets: Numeric,
+		totalSupply: Numeric
+	) => BigNumber
+	readonly holdersShare: (reward: Numeric, lockups: Numeric) => BigNumber
+	readonly authenticationFee: (
+		totalAssets: Numeric,
+		propertyLockups: Numeric
+	) => BigNumber
+	readonly shareOfTreasury: (supply: Numeric) => BigNumber
+}
+
+const BASIS = new BigNumber('10000000000000000000000000')
+const POWER_BASIS = new BigNumber('10000000000')
+
+const uint = (value: Numeric): BigNumber => new BigNumber(value)
+
+// Mirrors the reverts and the truncation of SafeMath for uint256
+export const sub = (a: BigNumber, b: BigNumber): BigNumber => {
+	if (b.isGreaterThan(a)) {
+		throw new Error('SafeMath: subtraction overflow')
+	}
+
+	return a.minus(b)
+}
+
+export const div = (a: BigNumber, b: BigNumber): BigNumber => {
+	if (b.isZero()) {
+		throw new Error('SafeMath: division by zero')
+	}
+
+	return a.idiv(b)
+}
+
+const decay = (s: BigNumber): BigNumber => {
+	const _d = sub(BASIS, s)
+	const _p = div(
+		sub(POWER_BASIS.times(12), div(s, div(BASIS, POWER_BASIS.times(10)))),
+		new BigNumber(2)
+	)
+	const p = div(_p, POWER_BASIS)
+	const rp = p.plus(1)
+	const f = sub(_p, p.times(POWER_BASIS))
+	let d1 = _d
+	let d2 = _d
+	for (let i = 0; p.isGreaterThan(i); i++) {
+		d1 = div(d1.times(_d), BASIS)
+	}
+
+	for (let i = 0; rp.isGreaterThan(i); i++) {
+		d2 = div(d2.times(_d), BASIS)
+	}
+
+	const g = div(sub(d1, d2).times(f), POWER_BASIS)
+	return sub(d1, g)
+}
+
+/**
+ * Same as `Curve.curveRewards`, including the order of the truncations.
+ */
+export const curveRewards = (
+	lockups: Numeric,
+	assets: Numeric,
+	totalSupply: Numeric,
+	mintPerBlockAndAsset: Numeric
+): BigNumber => {
+	const s = div(uint(lockups).times(BASIS), uint(totalSupply))
+	const max = uint(assets).times(sub(BASIS, s)).times(mintPerBlockAndAsset)
+	const d = decay(s)
+	return div(div(max.times(d), BASIS), BASIS)
+}
+
+const dip1Rewards = (
+	lockups: Numeric,
+	assets: Numeric,
+	totalSupply: Numeric
+): BigNumber => {
+	const max = uint(assets).times('250000000000000')
+	const s = div(uint(lockups).times(BASIS), uint(totalSupply))
+	const d = decay(s)
+	return div(max.times(d), BASIS)
+}
+
+export const dip1: PolicyFormula = {
+	rewards: dip1Rewards,
+	holdersShare: (reward, lockups) =>
+		uint(lockups).isGreaterThan(0)
+			? div(uint(reward).times(51), new BigNumber(100))
+			: uint(reward),
+	authenticationFee: (totalAssets, propertyLockups) => {
+		const a = div(uint(totalAssets), new BigNumber(10000))
+		const b = div(
+			uint(propertyLockups),
+			new BigNumber('100000000000000000000000')
+		)
+		return a.isLessThanOrEqualTo(b) ? new BigNumber(0) : sub(a, b)
+	},
+	shareOfTreasury: () => new BigNumber(0),
+}
+
+export const dip7: PolicyFormula = {
+	...dip1,
+	rewards: (lockups, assets, totalSupply) =>
+		curveRewards(lockups, assets, totalSupply, '120000000000000'),
+}
+
+export const patch780: PolicyFormula = {
+	...dip7,
+	rewards: (lockups, assets, totalSupply) =>
+		curveRewards(lockups, assets, totalSupply, '132000000000000'),
+	shareOfTreasury: (supply) => div(uint(supply), new BigNumber(100)).times(5),
+}
+
+export const dip55: PolicyFormula = patch780
+
+/**
+ * Same as `PolicyTestBase`, the policy of the contract tests.
+ */
+export const policyTestBase: PolicyFormula = {
+	rewards: () => new BigNumber('100000000000000000000'),
+	holdersShare: (reward, lockups) =>
+		uint(lockups).isGreaterThan(0)
+			? div(uint(reward).times(90), new BigNumber(100))
+			: uint(reward),
+	authenticationFee: (totalAssets, propertyLockups) =>
+		uint(totalAssets).plus(propertyLockups).plus(1),
+	shareOfTreasury: (supply) => div(uint(supply), new BigNumber(100)).times(5),
+}
@@ -0,0 +1,382 @@
+import BigNumber from 'bignumber.js'
+import { div, Numeric, PolicyFormula, sub } from './policy-formula'
+
+export type StakingEvent =
+	| {
+			readonly type: 'lockup' | 'withdraw'
+			readonly block: number
+			readonly property: string
+			readonly user: string
+			readonly value: Numeric
+	  }
+	| {
+			readonly type: 'updateCap'
+			readonly block: number
+			readonly cap: Numeric
+	  }
+	| {
+			readonly type: 'assets'
+			readonly block: number
+			readonly property: string
+			readonly count: number
+	  }
+	| {
+			readonly type: 'policy'
+			readonly block: number
+			readonly policy: PolicyFormula
+	  }
+	| { readonly type: 'mint'; readonly block: number; readonly amount: Numeric }
+	| { readonly type: 'update'; readonly block: number }
+export type RewardPrices = {
+	readonly reward: BigNumber
+	readonly holders: BigNumber
+	readonly interest: BigNumber
+	readonly holdersCap: BigNumber
+}
+export type HoldersReward = {
+	readonly reward: BigNumber
+	readonly cap: BigNumber
+}
+export type SimulatedBlock = {
+	readonly block: number
+	readonly prices: RewardPrices
+	readonly interest: Readonly<
+		Record<string, Readonly<Record<string, BigNumber>>>
+	>
+	readonly holders: Readonly<Record<string, HoldersReward>>
+}
+export type SimulatedWithdrawal = {
+	readonly block: number
+	readonly property: string
+	readonly user: string
+	readonly value: BigNumber
+	readonly interest: BigNumber
+}
+export type StakingSimulationOptions = {
+	readonly policy: PolicyFormula
+	readonly totalSupply: Numeric
+	readonly cap?: Numeric
+	readonly fallbackInitialCap?: Numeric
+	readonly toBlock?: number
+}
+export type StakingSimulation = {
+	readonly blocks: readonly SimulatedBlock[]
+	readonly withdrawals: readonly SimulatedWithdrawal[]
+}
+
+const BASIS = new BigNumber('1000000000000000000')
+const ZERO = new BigNumber(0)
+
+const zeroPrices: RewardPrices = {
+	reward: ZERO,
+	holders: ZERO,
+	interest: ZERO,
+	holdersCap: ZERO,
+}
+
+/**
+ * Replays the timeline with the accounting of Lockup.sol, including the order of the truncations.
+ * Events in the same block are applied in order, and each block is observed after its events,
+ * the same as calling the view functions at that block.
+ * `mint` covers every change of the DEV supply other than the staker rewards, e.g. the holder rewards,
+ * and `update` is an external call of `Lockup.update` such as the one by `Withdraw.withdraw`.
+ */
+export const simulateStaking = (
+	timeline: readonly StakingEvent[],
+	{
+		policy: initialPolicy,
+		totalSupply,
+		cap: initialCap = 0,
+		fallbackInitialCap = 0,
+		toBlock,
+	}: StakingSimulationOptions
+): StakingSimulation => {
+	const events = [...timeline].sort((a, b) => a.block - b.block)
+	let policy = initialPolicy
+	let supply = new BigNumber(totalSupply)
+	let cap = new BigNumber(initialCap)
+
+	// The storage of Lockup
+	let allValue = ZERO
+	let cumulativeGlobalRewards = ZERO
+	let lastSameRewardsAmount = ZERO
+	let lastSameRewardsBlock = 0
+	let lastStakesChangedCumulativeReward = ZERO
+	let lastCumulativeHoldersRewardPrice = ZERO
+	let lastCumulativeInterestPrice = ZERO
+	let cumulativeHoldersRewardCap = ZERO
+	let lastCumulativeHoldersPriceCap = ZERO
+	const propertyValue = new Map<string, BigNumber>()
+	const value = new Map<string, BigNumber>()
+	const lastStakedInterestPrice = new Map<string, BigNumber>()
+	const pendingInterestWithdrawal = new Map<string, BigNumber>()
+	const lastHoldersRewardAmountPerProperty = new Map<string, BigNumber>()
+	const lastHoldersRewardPricePerProperty = new Map<string, BigNumber>()
+	const initialCumulativeHoldersRewardCap = new Map<string, BigNumber>()
+	const assets = new Map<string, number>()
+
+	const key = (property: string, user: string): string =>
+		`${property}:${user}`.toLowerCase()
+	const get = (map: ReadonlyMap<string, BigNumber>, k: string): BigNumber =>
+		map.get(k.toLowerCase()) ?? ZERO
+	const totalAssets = (): number =>
+		[...assets.values()].reduce((sum, x) => sum + x, 0)
+	const hasAssets = (property: string): boolean =>
+		(assets.get(property.toLowerCase()) ?? 0) > 0
+
+	const dry = (block: number): [BigNumber, BigNumber] => {
+		const rewardsAmount = policy.rewards(allValue, totalAssets(), supply)
+		const blocks =
+			lastSameRewardsBlock > 0
+				? sub(new BigNumber(block), new BigNumber(lastSameRewardsBlock))
+				: ZERO
+		return [
+			cumulativeGlobalRewards.plus(lastSameRewardsAmount.times(blocks)),
+			rewardsAmount,
+		]
+	}
+
+	const update = (block: number): void => {
+		const [nextRewards, amount] = dry(block)
+		cumulativeGlobalRewards = nextRewards
+		lastSameRewardsAmount = amount
+		lastSameRewardsBlock = block
+	}
+
+	const calculateCumulativeRewardPrices = (block: number): RewardPrices => {
+		const [reward] = dry(block)
+		const mReward = reward.times(BASIS)
+		const price = allValue.isGreaterThan(0)
+			? div(sub(mReward, lastStakesChangedCumulativeReward), allValue)
+			: ZERO
+		const holdersShare = policy.holdersShare(price, allValue)
+		const holdersPrice = holdersShare.plus(lastCumulativeHoldersRewardPrice)
+		const interestPrice = sub(price, holdersShare).plus(
+			lastCumulativeInterestPrice
+		)
+		const holdersCap = cumulativeHoldersRewardCap.plus(
+			sub(holdersPrice, lastCumulativeHoldersPriceCap).times(cap)
+		)
+		return {
+			reward: mReward,
+			holders: holdersPrice,
+			interest: interestPrice,
+			holdersCap,
+		}
+	}
+
+	const calculateCumulativeHoldersRewardAmount = (
+		holdersPrice: BigNumber,
+		property: string
+	): BigNumber =>
+		get(lastHoldersRewardAmountPerProperty, property).plus(
+			sub(holdersPrice, get(lastHoldersRewardPricePerProperty, property)).times(
+				get(propertyValue, property)
+			)
+		)
+
+	const getInitialCap = (property: string): BigNumber => {
+		const stored = get(initialCumulativeHoldersRewardCap, property)
+		if (stored.isGreaterThan(0)) {
+			return stored
+		}
+
+		return get(lastHoldersRewardPricePerProperty, property).isGreaterThan(0) ||
+			get(propertyValue, property).isGreaterThan(0)
+			? new BigNumber(fallbackInitialCap)
+			: ZERO
+	}
+
+	const calculateWithdrawableInterestAmount = (
+		property: string,
+		user: string,
+		block: number
+	): [BigNumber, RewardPrices] => {
+		// Lockup returns zero prices for unauthenticated Properties
+		if (!hasAssets(property)) {
+			return [ZERO, zeroPrices]
+		}
+
+		const k = key(property, user)
+		const prices = calculateCumulativeRewardPrices(block)
+		const lastInterest = get(lastStakedInterestPrice, k)
+		const amount = prices.interest.isGreaterThanOrEqualTo(lastInterest)
+			? div(sub(prices.interest, lastInterest).times(get(value, k)), BASIS)
+			: ZERO
+		return [amount.plus(get(pendingInterestWithdrawal, k)), prices]
+	}
+
+	const beforeStakesChanged = (
+		property: string,
+		user: string,
+		prices: RewardPrices
+	): void => {
+		const p = property.toLowerCase()
+		const cHoldersReward = calculateCumulativeHoldersRewardAmount(
+			prices.holders,
+			property
+		)
+		if (
+			get(lastHoldersRewardPricePerProperty, p).isZero() &&
+			get(initialCumulativeHoldersRewardCap, p).isZero() &&
+			get(propertyValue, p).isZero()
+		) {
+			initialCumulativeHoldersRewardCap.set(p, prices.holdersCap)
+		}
+
+		lastStakedInterestPrice.set(key(property, user), prices.interest)
+		lastStakesChangedCumulativeReward = prices.reward
+		lastCumulativeHoldersRewardPrice = prices.holders
+		lastCumulativeInterestPrice = prices.interest
+		lastHoldersRewardAmountPerProperty.set(p, cHoldersReward)
+		lastHoldersRewardPricePerProperty.set(p, prices.holders)
+		cumulativeHoldersRewardCap = prices.holdersCap
+		lastCumulativeHoldersPriceCap = prices.holders
+	}
+
+	const updateValues = (
+		addition: boolean,
+		user: string,
+		property: string,
+		amount: BigNumber,
+		prices: RewardPrices,
+		block: number
+		// eslint-disable-next-line max-params
+	): void => {
+		beforeStakesChanged(property, user, prices)
+		const change = (x: BigNumber): BigNumber =>
+			addition ? x.plus(amount) : sub(x, amount)
+		const p = property.toLowerCase()
+		const k = key(property, user)
+		allValue = change(allValue)
+		propertyValue.set(p, change(get(propertyValue, p)))
+		value.set(k, change(get(value, k)))
+		update(block)
+	}
+
+	const withdrawals: SimulatedWithdrawal[] = []
+	const apply = (event: StakingEvent): void => {
+		switch (event.type) {
+			case 'lockup': {
+				const { block, property, user } = event
+				const amount = new BigNumber(event.value)
+				if (amount.isZero()) {
+					throw new Error('illegal lockup value')
+				}
+
+				if (!hasAssets(property)) {
+					throw new Error('unable to stake to unauthenticated property')
+				}
+
+				const [withdrawable, prices] = calculateWithdrawableInterestAmount(
+					property,
+					user,
+					block
+				)
+				pendingInterestWithdrawal.set(key(property, user), withdrawable)
+				updateValues(true, user, property, amount, prices, block)
+				break
+			}
+
+			case 'withdraw': {
+				const { block, property, user } = event
+				const amount = new BigNumber(event.value)
+				const k = key(property, user)
+				if (get(value, k).isLessThan(amount)) {
+					throw new Error('insufficient tokens staked')
+				}
+
+				const [interest, prices] = calculateWithdrawableInterestAmount(
+					property,
+					user,
+					block
+				)
+				pendingInterestWithdrawal.set(k, ZERO)
+				lastStakedInterestPrice.set(k, prices.interest)
+				supply = supply.plus(interest)
+				update(block)
+				withdrawals.push({ block, property, user, value: amount, interest })
+				updateValues(false, user, property, amount, prices, block)
+				break
+			}
+
+			case 'updateCap': {
+				const { holders, holdersCap } = calculateCumulativeRewardPrices(
+					event.block
+				)
+				cumulativeHoldersRewardCap = holdersCap
+				lastCumulativeHoldersPriceCap = holders
+				cap = new BigNumber(event.cap)
+				break
+			}
+
+			case 'assets':
+				assets.set(event.property.toLowerCase(), event.count)
+				break
+			case 'policy':
+				policy = event.policy
+				break
+			case 'mint':
+				supply = supply.plus(event.amount)
+				break
+			case 'update':
+				update(event.block)
+				break
+			default:
+				break
+		}
+	}
+
+	const observe = (block: number): SimulatedBlock => {
+		const prices = calculateCumulativeRewardPrices(block)
+		const interest: Record<string, Record<string, BigNumber>> = {}
+		for (const [k, staked] of value) {
+			if (staked.isZero() && get(pendingInterestWithdrawal, k).isZero()) {
+				continue
+			}
+
+			const [property, user] = k.split(':')
+			const [amount] = calculateWithdrawableInterestAmount(
+				property,
+				user,
+				block
+			)
+			interest[property] = { ...interest[property], [user]: amount }
+		}
+
+		const holders: Record<string, HoldersReward> = {}
+		for (const property of new Set([
+			...assets.keys(),
+			...propertyValue.keys(),
+		])) {
+			holders[property] = {
+				reward: calculateCumulativeHoldersRewardAmount(
+					prices.holders,
+					property
+				),
+				cap: sub(prices.holdersCap, getInitialCap(property)),
+			}
+		}
+
+		return { block, prices, interest, holders }
+	}
+
+	const blocks: SimulatedBlock[] = []
+	if (events.length === 0) {
+		return { blocks, withdrawals }
+	}
+
+	const [{ block: firstBlock }] = events
+	const lastBlock = toBlock ?? events[events.length - 1].block
+	let next = 0
+	for (let block = firstBlock; block <= lastBlock; block++) {
+		while (next < events.length && events[next].block === block) {
+			apply(events[next])
+			next++
+		}
+
+		blocks.push(observe(block))
+	}
+
+	return { blocks, withdrawals }
+}
@@ -0,0 +1,264 @@
+/* eslint-disable no-useless-call */
+import Web3 from 'web3'
+import { Contract } from 'web3-eth-contract'
+import { AbiItem } from 'web3-utils/types'
+import { createRegistry, createProperty, createQueue } from './bulk-initializer'
+import { EventIndexer } from './event-indexer'
+import builtLockup from '../../build/contracts/Lockup.json'
+import builtWithdraw from '../../build/contracts/Withdraw.json'
+
+export type SnapshotValue = string | Record<string, string> | null
+export type SnapshotValues = Record<string, SnapshotValue>
+export type SnapshotPair = {
+	readonly property: string
+	readonly user: string
+}
+export type PairSnapshot = SnapshotPair & {
+	readonly lockup: SnapshotValues
+	readonly withdraw: SnapshotValues
+}
+export type StateSnapshot = {
+	readonly block: number
+	readonly lockup: string
+	readonly withdraw: string
+	readonly global: SnapshotValues
+	readonly properties: Record<string, SnapshotValues>
+	readonly pairs: readonly PairSnapshot[]
+}
+export type SnapshotDifference = {
+	readonly path: string
+	readonly before: SnapshotValue
+	readonly after: SnapshotValue
+}
+
+const pairGetter = (name: string, outputs: readonly string[]): AbiItem => ({
+	type: 'function',
+	name,
+	stateMutability: 'view',
+	inputs: [
+		{ name: '_property', type: 'address' },
+		{ name: '_user', type: 'address' },
+	],
+	outputs: outputs.map((x) => ({ name: x, type: 'uint256' })),
+})
+
+/**
+ * Storage getters of the Lockup before DIP4, which the current ABI no longer has.
+ */
+const legacyLockupAbi: AbiItem[] = [
+	pairGetter('getStorageLastCumulativeGlobalReward', ['']),
+	pairGetter('getStorageLastCumulativeLockedUpAndBlock', [
+		'_cLocked',
+		'_block',
+	]),
+	pairGetter('getStorageLastCumulativePropertyInterest', ['']),
+]
+
+const normalize = (result: unknown): Exclude<SnapshotValue, null> => {
+	if (typeof result !== 'object' || result === null) {
+		return String(result)
+	}
+
+	const entries = Object.entries(result as Record<string, unknown>).filter(
+		([key]) => key !== '__length__'
+	)
+	const named = entries.filter(([key]) => !/^\d+$/.test(key))
+	return Object.fromEntries(
+		(named.length > 0 ? named : entries).map(([key, value]) => [
+			key,
+			String(value),
+		])
+	)
+}
+
+/**
+ * Calls the view functions at the block, recording `null` for reverted or missing ones.
+ */
+const createSnapshotCaller =
+	(contract: Contract, block: number) =>
+	async (
+		calls: Record<string, readonly unknown[]>
+	): Promise<SnapshotValues> => {
+		const values = await Promise.all(
+			Object.entries(calls).map(async ([method, args]) => {
+				const value: SnapshotValue = await contract.methods[method](...args)
+					.call(undefined, block)
+					.then(normalize)
+					.catch(() => null)
+				return [method, value] as const
+			})
+		)
+		return Object.fromEntries(values)
+	}
+
+/**
+ * Stakers come from the lockups, holders from the transfers and the authors.
+ * The indexer should end at the block so that later pairs are excluded.
+ */
+export const collectSnapshotPairs = async (
+	indexer: EventIndexer,
+	libWeb3: Web3,
+	block: number
+): Promise<SnapshotPair[]> => {
+	const [{ data }, transfers] = await Promise.all([
+		indexer.accountLockup(0, Number.MAX_SAFE_INTEGER),
+		indexer.propertyTransfers(),
+	])
+	const stakers = data.account_lockup.map(
+		({ property_address, account_address }) => ({
+			property: property_address,
+			user: account_address,
+		})
+	)
+	const holders = transfers.flatMap(({ property, from, to }) => [
+		{ property, user: from },
+		{ property, user: to },
+	])
+	const properties = [
+		...new Set([...stakers, ...holders].map(({ property }) => property)),
+	]
+	const propertyCreator = createProperty(libWeb3)
+	const authors = await createQueue(10).addAll(
+		properties.map((property) => async () => ({
+			property,
+			user: (await propertyCreator(property)
+				.methods.author()
+				.call(undefined, block)) as string,
+		}))
+	)
+
+	const pairs = new Map<string, SnapshotPair>()
+	for (const pair of [...stakers, ...holders, ...authors]) {
+		pairs.set(`${pair.property}:${pair.user}`.toLowerCase(), pair)
+	}
+
+	return [...pairs.values()]
+}
+
+export const takeStateSnapshot = async (
+	configAddress: string,
+	libWeb3: Web3,
+	pairs: readonly SnapshotPair[],
+	block: number
+): Promise<StateSnapshot> => {
+	const configContract = createRegistry(configAddress, libWeb3)
+	const [lockupAddress, withdrawAddress] = (await Promise.all([
+		configContract.methods.lockup().call(undefined, block),
+		configContract.methods.withdraw().call(undefined, block),
+	])) as [string, string]
+	const lockup = createSnapshotCaller(
+		new libWeb3.eth.Contract(
+			[...(builtLockup.abi as AbiItem[]), ...legacyLockupAbi],
+			lockupAddress
+		),
+		block
+	)
+	const withdraw = createSnapshotCaller(
+		new libWeb3.eth.Contract(builtWithdraw.abi as AbiItem[], withdrawAddress),
+		block
+	)
+
+	const global = await lockup({
+		getAllValue: [],
+		cap: [],
+		calculateCumulativeRewardPrices: [],
+		getStorageLastSameRewardsAmountAndBlock: [],
+		getStorageCumulativeGlobalRewards: [],
+	})
+
+	const properties = [...new Set(pairs.map(({ property }) => property))]
+	const propertyValues = await createQueue(10).addAll(
+		properties.map((property) => async () => {
+			const values = await lockup({
+				getPropertyValue: [property],
+				calculateRewardAmount: [property],
+				getStorageLastCumulativeHoldersRewardPricePerProperty: [property],
+				getStorageLastCumulativeHoldersRewardAmountPerProperty: [property],
+				getStorageInitialCumulativeHoldersRewardCap: [property],
+			})
+			return [property, values] as const
+		})
+	)
+
+	const pairValues = await createQueue(10).addAll(
+		pairs.map(({ property, user }) => async () => {
+			const [lockupValues, withdrawValues] = await Promise.all([
+				lockup({
+					getValue: [property, user],
+					getStorageLastCumulativeGlobalReward: [property, user],
+					getStorageLastCumulativeLockedUpAndBlock: [property, user],
+					getStorageLastCumulativePropertyInterest: [property, user],
+					getStorageLastStakedInterestPrice: [property, user],
+					getStoragePendingInterestWithdrawal: [property, user],
+					calculateWithdrawableInterestAmount: [property, user],
+				}),
+				withdraw({
+					getLastWithdrawalPrice: [property, user],
+					getPendingWithdrawal: [property, user],
+					getStorageLastWithdrawnReward: [property, user],
+					getStorageLastWithdrawnRewardCap: [property, user],
+					calculateRewardAmount: [property, user],
+				}),
+			])
+			return {
+				property,
+				user,
+				lockup: lockupValues,
+				withdraw: withdrawValues,
+			}
+		})
+	)
+
+	return {
+		block,
+		lockup: lockupAddress,
+		withdraw: withdrawAddress,
+		global,
+		properties: Object.fromEntries(propertyValues),
+		pairs: pairValues,
+	}
+}
+
+const flatten = (
+	snapshot: StateSnapshot
+): ReadonlyMap<string, SnapshotValue> => {
+	const entries: Array<[string, SnapshotValue]> = []
+	const add = (prefix: string, values: SnapshotValues): void => {
+		for (const [key, value] of Object.entries(values)) {
+			entries.push([`${prefix}.${key}`, value])
+		}
+	}
+
+	add('global', snapshot.global)
+	for (const [property, values] of Object.entries(snapshot.properties)) {
+		add(`properties.${property.toLowerCase()}`, values)
+	}
+
+	for (const { property, user, lockup, withdraw } of snapshot.pairs) {
+		const prefix = `pairs.${property.toLowerCase()}:${user.toLowerCase()}`
+		add(`${prefix}.lockup`, lockup)
+		add(`${prefix}.withdraw`, withdraw)
+	}
+
+	return new Map(entries)
+}
+
+/**
+ * Lists the values that differ between two snapshots, e.g. before and after an upgrade.
+ */
+export const diffStateSnapshots = (
+	before: StateSnapshot,
+	after: StateSnapshot
+): SnapshotDifference[] => {
+	const a = flatten(before)
+	const b = flatten(after)
+	return [...new Set([...a.keys(), ...b.keys()])]
+		.map((path) => ({
+			path,
+			before: a.get(path) ?? null,
+			after: b.get(path) ?? null,
+		}))
+		.filter(
+			({ before, after }) => JSON.stringify(before) !== JSON.stringify(after)
+		)
+}
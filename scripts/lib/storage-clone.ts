@@ -0,0 +1,247 @@
+import Web3 from 'web3'
+import { AbiItem } from 'web3-utils/types'
+import { createQueue } from './bulk-initializer'
+import { EventIndexer } from './event-indexer'
+import { collectSnapshotPairs, SnapshotPair } from './state-snapshot'
+import {
+	createStorageReader,
+	getModuleStorageAddress,
+	storageKey,
+	StorageKeyDefinition,
+	storageKeyParams,
+	storageKeys,
+	StorageModule,
+	StorageValueType,
+} from './storage-keys'
+import { TransactionManager } from './transaction-manager'
+import builtStorageMigration from '../../build/contracts/StorageMigration.json'
+
+export type StorageEntities = {
+	readonly pairs: readonly SnapshotPair[]
+	readonly values: Readonly<Record<string, readonly string[]>>
+}
+export type StorageEntry = {
+	readonly name: string
+	readonly args: readonly string[]
+	readonly key: string
+	readonly type: StorageValueType
+	readonly value: string
+}
+export type StorageCloneOptions = {
+	readonly from: string
+	readonly manager: TransactionManager
+	readonly migration?: string
+	readonly batchSize?: number
+}
+export type StorageClone = {
+	readonly migration: string
+	readonly storage: string
+	readonly written: number
+}
+export type StorageVerification = StorageEntry & {
+	readonly actual: string
+	readonly match: boolean
+}
+export type StorageVerificationReport = {
+	readonly source: string
+	readonly destination: string
+	readonly total: number
+	readonly mismatches: number
+	readonly entries: readonly StorageVerification[]
+}
+
+const unique = (values: readonly string[]): string[] => [
+	...new Map(values.map((x) => [x.toLowerCase(), x])).values(),
+]
+
+const isDefault = (value: string): boolean => value === '0' || value === 'false'
+
+/**
+ * The arguments of the keys, found in the events until the block.
+ * VoteCounter has no events, so the voters are the stakers since voting needs staking.
+ */
+export const collectStorageEntities = async (
+	configAddress: string,
+	libWeb3: Web3,
+	indexer: EventIndexer,
+	block: number
+): Promise<StorageEntities> => {
+	const [pairs, markets, policies, metrics, policyGroupStorage] =
+		await Promise.all([
+			collectSnapshotPairs(indexer, libWeb3, block),
+			indexer.markets(),
+			indexer.policies(),
+			indexer.metrics(),
+			getModuleStorageAddress(configAddress, libWeb3, 'PolicyGroup', block),
+		])
+	const votingGroupIndex = await createStorageReader(
+		libWeb3,
+		policyGroupStorage,
+		block
+	)('uint', storageKey(storageKeys.PolicyGroup.votingGroupIndex, []))
+	const addresses = (created: ReadonlyArray<{ address: string }>): string[] =>
+		unique(created.map(({ address }) => address))
+	return {
+		pairs,
+		values: {
+			property: unique(pairs.map(({ property }) => property)),
+			user: unique(pairs.map(({ user }) => user)),
+			market: addresses(markets),
+			policy: addresses(policies),
+			metrics: addresses(metrics),
+			target: addresses([...markets, ...policies]),
+			votingGroupIndex: [...new Array(Number(votingGroupIndex) + 1)].map(
+				(_, i) => String(i)
+			),
+			agree: ['true', 'false'],
+		},
+	}
+}
+
+/**
+ * Every argument list of the key. The keys of a Property and a user take the known pairs
+ * instead of all the combinations, and the other params are combined.
+ */
+export const enumerateStorageArgs = (
+	definition: StorageKeyDefinition,
+	{ pairs, values }: StorageEntities
+): string[][] => {
+	const params = storageKeyParams(definition).map(({ name }) => name)
+	const paired = params.includes('property') && params.includes('user')
+	const initial: Array<Record<string, string>> = paired
+		? pairs.map(({ property, user }) => ({ property, user }))
+		: [{}]
+	const combined = params
+		.filter((name) => !(paired && (name === 'property' || name === 'user')))
+		.reduce((tuples, name) => {
+			const candidates = values[name]
+			if (!candidates) {
+				throw new Error(`no entities for the param: ${name}`)
+			}
+
+			return tuples.flatMap((tuple) =>
+				candidates.map((value) => ({ ...tuple, [name]: value }))
+			)
+		}, initial)
+	return combined.map((tuple) => params.map((name) => tuple[name]))
+}
+
+export const readStorageEntries = async (
+	libWeb3: Web3,
+	storageAddress: string,
+	module: StorageModule,
+	entities: StorageEntities,
+	block?: number
+	// eslint-disable-next-line max-params
+): Promise<StorageEntry[]> => {
+	const read = createStorageReader(libWeb3, storageAddress, block)
+	const tasks = Object.entries(storageKeys[module]).flatMap(
+		([name, definition]) =>
+			enumerateStorageArgs(definition, entities).map((args) => async () => {
+				const key = storageKey(definition, args)
+				const value = await read(definition.type, key)
+				return { name, args, key, type: definition.type, value }
+			})
+	)
+	return createQueue(10).addAll(tasks)
+}
+
+/**
+ * Writes the entries other than the default values into a new EternalStorage of StorageMigration.
+ * The module should not be changed while cloning, since the entries are read at a block.
+ */
+export const cloneStorage = async (
+	libWeb3: Web3,
+	entries: readonly StorageEntry[],
+	{
+		from,
+		manager,
+		migration: migrationAddress,
+		batchSize = 100,
+	}: StorageCloneOptions
+): Promise<StorageClone> => {
+	const abi = builtStorageMigration.abi as AbiItem[]
+	const migration = migrationAddress
+		? new libWeb3.eth.Contract(abi, migrationAddress)
+		: await new libWeb3.eth.Contract(abi)
+				.deploy({ data: builtStorageMigration.bytecode })
+				.send({ from })
+	console.log('StorageMigration', migration.options.address)
+
+	const send = async (data: string): Promise<void> => {
+		const report = await manager.send(
+			{ to: migration.options.address, data },
+			(hash) => {
+				console.log('Created the transaction', hash)
+			}
+		)
+		if (report.state !== 'confirmed') {
+			throw new Error(
+				`the transaction was not confirmed: ${report.state} ${
+					report.error ?? ''
+				}`
+			)
+		}
+	}
+
+	const hasStorage = await migration.methods
+		.getStorageAddress()
+		.call()
+		.then(() => true)
+		.catch(() => false)
+	if (!hasStorage) {
+		await send(migration.methods.createStorage().encodeABI())
+	}
+
+	const storage: string = await migration.methods.getStorageAddress().call()
+	const written = entries.filter(({ value }) => !isDefault(value))
+	const methods: Array<[StorageValueType, string]> = [
+		['uint', 'setUints'],
+		['bool', 'setBools'],
+	]
+	for (const [type, method] of methods) {
+		const target = written.filter((entry) => entry.type === type)
+		for (let i = 0; i < target.length; i += batchSize) {
+			const batch = target.slice(i, i + batchSize)
+			// eslint-disable-next-line no-await-in-loop
+			await send(
+				migration.methods[method](
+					batch.map(({ key }) => key),
+					batch.map(({ value }) => (type === 'bool' ? value === 'true' : value))
+				).encodeABI()
+			)
+			console.log(`Wrote ${type} values`, i + batch.length, '/', target.length)
+		}
+	}
+
+	return {
+		migration: migration.options.address,
+		storage,
+		written: written.length,
+	}
+}
+
+/**
+ * Compares the entries with the values in the destination key by key.
+ */
+export const verifyClonedStorage = async (
+	libWeb3: Web3,
+	source: string,
+	destination: string,
+	entries: readonly StorageEntry[]
+): Promise<StorageVerificationReport> => {
+	const read = createStorageReader(libWeb3, destination)
+	const verified = await createQueue(10).addAll(
+		entries.map((entry) => async (): Promise<StorageVerification> => {
+			const actual = await read(entry.type, entry.key)
+			return { ...entry, actual, match: actual === entry.value }
+		})
+	)
+	return {
+		source,
+		destination,
+		total: verified.length,
+		mismatches: verified.filter(({ match }) => !match).length,
+		entries: verified,
+	}
+}
@@ -0,0 +1,306 @@
+/* eslint-disable no-useless-call */
+import Web3 from 'web3'
+import { AbiItem, Mixed } from 'web3-utils/types'
+import builtAddressConfig from '../../build/contracts/AddressConfig.json'
+import builtEternalStorage from '../../build/contracts/EternalStorage.json'
+import builtUsingStorage from '../../build/contracts/UsingStorage.json'
+
+export type StorageValueType =
+	| 'uint'
+	| 'int'
+	| 'bool'
+	| 'address'
+	| 'bytes'
+	| 'string'
+export type StorageParamType = 'address' | 'uint256' | 'bool'
+export type StorageKeyParam = {
+	readonly name: string
+	readonly type: StorageParamType
+}
+export type StorageKeyPart = string | StorageKeyParam
+export type StorageKeyDefinition = {
+	readonly type: StorageValueType
+	readonly parts: readonly StorageKeyPart[]
+}
+export type StorageModule =
+	| 'Lockup'
+	| 'Withdraw'
+	| 'VoteCounter'
+	| 'MetricsGroup'
+	| 'PolicyGroup'
+	| 'MarketGroup'
+	| 'PropertyGroup'
+
+const address = (name: string): StorageKeyParam => ({ name, type: 'address' })
+const uint = (name: string): StorageKeyParam => ({ name, type: 'uint256' })
+const bool = (name: string): StorageKeyParam => ({ name, type: 'bool' })
+const key = (
+	type: StorageValueType,
+	...parts: readonly StorageKeyPart[]
+): StorageKeyDefinition => ({ type, parts })
+
+/**
+ * The keys of `keccak256(abi.encodePacked(...))` in the storage contracts, named after their getters.
+ */
+export const storageKeys: Readonly<
+	Record<StorageModule, Readonly<Record<string, StorageKeyDefinition>>>
+> = {
+	Lockup: {
+		allValue: key('uint', '_allValue'),
+		value: key('uint', '_value', address('property'), address('user')),
+		propertyValue: key('uint', '_propertyValue', address('property')),
+		interestPrice: key('uint', '_interestTotals', address('property')),
+		lastInterestPrice: key(
+			'uint',
+			'_lastLastInterestPrice',
+			address('property'),
+			address('user')
+		),
+		// `amount * 1e18 + block`
+		lastSameRewardsAmountAndBlock: key(
+			'uint',
+			'_LastSameRewardsAmountAndBlock'
+		),
+		cumulativeGlobalRewards: key('uint', '_cumulativeGlobalRewards'),
+		pendingInterestWithdrawal: key(
+			'uint',
+			'_pendingInterestWithdrawal',
+			address('property'),
+			address('user')
+		),
+		dip4GenesisBlock: key('uint', '_dip4GenesisBlock'),
+		lastStakedInterestPrice: key(
+			'uint',
+			'_lastStakedInterestPrice',
+			address('property'),
+			address('user')
+		),
+		lastStakesChangedCumulativeReward: key(
+			'uint',
+			'_lastStakesChangedCumulativeReward'
+		),
+		lastCumulativeHoldersRewardPrice: key(
+			'uint',
+			'0lastCumulativeHoldersRewardPrice'
+		),
+		lastCumulativeInterestPrice: key('uint', '0lastCumulativeInterestPrice'),
+		lastCumulativeHoldersRewardAmountPerProperty: key(
+			'uint',
+			'0lastCumulativeHoldersRewardAmountPerProperty',
+			address('property')
+		),
+		lastCumulativeHoldersRewardPricePerProperty: key(
+			'uint',
+			'0lastCumulativeHoldersRewardPricePerProperty',
+			address('property')
+		),
+		cap: key('uint', '_cap'),
+		cumulativeHoldersRewardCap: key('uint', '_cumulativeHoldersRewardCap'),
+		lastCumulativeHoldersPriceCap: key(
+			'uint',
+			'_lastCumulativeHoldersPriceCap'
+		),
+		initialCumulativeHoldersRewardCap: key(
+			'uint',
+			'_initialCumulativeHoldersRewardCap',
+			address('property')
+		),
+		fallbackInitialCumulativeHoldersRewardCap: key(
+			'uint',
+			'_fallbackInitialCumulativeHoldersRewardCap'
+		),
+	},
+	Withdraw: {
+		rewardsAmount: key('uint', '_rewardsAmount', address('property')),
+		cumulativePrice: key('uint', '_cumulativePrice', address('property')),
+		lastWithdrawalPrice: key(
+			'uint',
+			'_lastWithdrawalPrice',
+			address('property'),
+			address('user')
+		),
+		pendingWithdrawal: key(
+			'uint',
+			'_pendingWithdrawal',
+			address('property'),
+			address('user')
+		),
+		lastWithdrawnReward: key(
+			'uint',
+			'_lastWithdrawnReward',
+			address('property'),
+			address('user')
+		),
+		lastWithdrawnRewardCap: key(
+			'uint',
+			'_lastWithdrawnRewardCap',
+			address('property'),
+			address('user')
+		),
+	},
+	VoteCounter: {
+		alreadyVoteMarket: key(
+			'bool',
+			'_alreadyVoteMarket',
+			address('user'),
+			address('market'),
+			address('property')
+		),
+		alreadyUseProperty: key(
+			'bool',
+			'_alreadyUseProperty',
+			address('user'),
+			address('property'),
+			uint('votingGroupIndex')
+		),
+		// The second address is the Policy though VoteCounter names it `_property`
+		alreadyVotePolicy: key(
+			'bool',
+			'_alreadyVotePolicy',
+			address('user'),
+			address('policy'),
+			uint('votingGroupIndex')
+		),
+		policyVoteCount: key(
+			'uint',
+			'_policyVoteCount',
+			address('user'),
+			address('policy'),
+			bool('agree')
+		),
+		agreeCount: key('uint', address('target'), '_agreeVoteCount'),
+		oppositeCount: key('uint', address('target'), '_oppositeVoteCount'),
+	},
+	MetricsGroup: {
+		totalCount: key('uint', '_totalCount'),
+		metricsCountPerProperty: key(
+			'uint',
+			'_metricsCountPerProperty',
+			address('property')
+		),
+		group: key('bool', '_group', address('metrics')),
+		totalAuthenticatedProperties: key('uint', '_totalAuthenticatedProperties'),
+	},
+	PolicyGroup: {
+		votingGroupIndex: key('uint', '_votingGroupIndex'),
+		group: key('bool', '_group', uint('votingGroupIndex'), address('policy')),
+		votingEndBlockNumber: key(
+			'uint',
+			'_votingEndBlockNumber',
+			address('policy')
+		),
+	},
+	MarketGroup: {
+		count: key('uint', '_count'),
+		group: key('bool', '_group', address('market')),
+	},
+	PropertyGroup: {
+		group: key('bool', '_group', address('property')),
+	},
+}
+
+/**
+ * The names of the AddressConfig getters of the modules.
+ */
+export const storageModuleGetters: Readonly<Record<StorageModule, string>> = {
+	Lockup: 'lockup',
+	Withdraw: 'withdraw',
+	VoteCounter: 'voteCounter',
+	MetricsGroup: 'metricsGroup',
+	PolicyGroup: 'policyGroup',
+	MarketGroup: 'marketGroup',
+	PropertyGroup: 'propertyGroup',
+}
+
+export const isStorageModule = (name: string): name is StorageModule =>
+	name in storageKeys
+
+export const getStorageKeyDefinition = (
+	module: StorageModule,
+	name: string
+): StorageKeyDefinition => {
+	const definition = storageKeys[module][name]
+	if (!definition) {
+		throw new Error(`unknown storage key of ${module}: ${name}`)
+	}
+
+	return definition
+}
+
+export const storageKeyParams = ({
+	parts,
+}: StorageKeyDefinition): StorageKeyParam[] =>
+	parts.filter((x): x is StorageKeyParam => typeof x !== 'string')
+
+/**
+ * Same as `keccak256(abi.encodePacked(...))` with the arguments in the order of the params.
+ */
+export const storageKey = (
+	definition: StorageKeyDefinition,
+	args: readonly string[]
+): string => {
+	const params = storageKeyParams(definition)
+	if (params.length !== args.length) {
+		throw new Error(
+			`expected ${params.length} arguments: ${params
+				.map(({ name }) => name)
+				.join(', ')}`
+		)
+	}
+
+	let index = 0
+	const values = definition.parts.map((part): Mixed => {
+		if (typeof part === 'string') {
+			return { t: 'string', v: part }
+		}
+
+		const arg = args[index++]
+		// A packed bool is a single byte, same as uint8
+		return part.type === 'bool'
+			? { t: 'uint8', v: arg === 'true' ? 1 : 0 }
+			: { t: part.type, v: arg }
+	})
+	return Web3.utils.soliditySha3(...values)!
+}
+
+export const createEternalStorage = (libWeb3: Web3, storageAddress: string) =>
+	new libWeb3.eth.Contract(builtEternalStorage.abi as AbiItem[], storageAddress)
+
+/**
+ * The EternalStorage of the module currently set in AddressConfig.
+ */
+export const getModuleStorageAddress = async (
+	configAddress: string,
+	libWeb3: Web3,
+	module: StorageModule,
+	block?: number
+): Promise<string> => {
+	// Not `createRegistry`, since bulk-initializer imports the ESM-only p-queue that the tests can not require
+	const logic: string = await new libWeb3.eth.Contract(
+		builtAddressConfig.abi as AbiItem[],
+		configAddress
+	).methods[storageModuleGetters[module]]().call(undefined, block)
+	return new libWeb3.eth.Contract(
+		builtUsingStorage.abi as AbiItem[],
+		logic
+	).methods
+		.getStorageAddress()
+		.call(undefined, block)
+}
+
+const getters: Readonly<Record<StorageValueType, string>> = {
+	uint: 'getUint',
+	int: 'getInt',
+	bool: 'getBool',
+	address: 'getAddress',
+	bytes: 'getBytes',
+	string: 'getString',
+}
+
+export const createStorageReader =
+	(libWeb3: Web3, storageAddress: string, block?: number) =>
+	async (type: StorageValueType, storageKeyHash: string): Promise<string> =>
+		createEternalStorage(libWeb3, storageAddress)
+			.methods[getters[type]](storageKeyHash)
+			.call(undefined, block)
+			.then(String)
@@ -0,0 +1,201 @@
+import BigNumber from 'bignumber.js'
+import Web3 from 'web3'
+import { TransactionReceipt } from 'web3-core'
+
+export type ManagedTransaction = {
+	readonly to: string
+	readonly data: string
+	readonly gas?: number
+}
+export type TransactionState = 'confirmed' | 'reverted' | 'timeout' | 'error'
+export type TransactionReport = {
+	// Undefined when the transaction failed before reserving a nonce
+	readonly nonce?: number
+	readonly hashes: readonly string[]
+	readonly state: TransactionState
+	readonly receipt?: TransactionReceipt
+	readonly error?: string
+}
+export type TransactionManagerOptions = {
+	readonly from: string
+	readonly gasPrice: () => Promise<number | string>
+	readonly confirmations?: number
+	readonly timeout?: number
+	readonly bump?: number
+	readonly maxBumps?: number
+	readonly pollInterval?: number
+}
+export type TransactionManager = {
+	readonly send: (
+		tx: ManagedTransaction,
+		onTransactionHash?: (hash: string) => void
+	) => Promise<TransactionReport>
+	readonly reports: () => readonly TransactionReport[]
+}
+
+const sleep = async (ms: number): Promise<void> =>
+	new Promise((resolve) => {
+		setTimeout(resolve, ms)
+	})
+
+export const createTransactionManager = (
+	libWeb3: Web3,
+	{
+		from,
+		gasPrice: fetchGasPrice,
+		confirmations = 1,
+		timeout = 180000,
+		bump = 1.125,
+		maxBumps = 5,
+		pollInterval = 5000,
+	}: TransactionManagerOptions
+): TransactionManager => {
+	const reports: TransactionReport[] = []
+	let nonce: Promise<number> | undefined
+
+	const reserveNonce = async (): Promise<number> => {
+		const current = nonce ?? libWeb3.eth.getTransactionCount(from, 'pending')
+		nonce = current.then((x) => x + 1)
+		return current
+	}
+
+	const broadcast = async (
+		tx: ManagedTransaction & { nonce: number; gas: number; gasPrice: string }
+	): Promise<string> =>
+		new Promise((resolve, reject) => {
+			libWeb3.eth
+				.sendTransaction({ ...tx, from })
+				.on('transactionHash', resolve)
+				.catch(reject)
+		})
+
+	const findReceipt = async (
+		hashes: readonly string[]
+	): Promise<TransactionReceipt | undefined> => {
+		const receipts = await Promise.all(
+			hashes.map(async (hash) => libWeb3.eth.getTransactionReceipt(hash))
+		)
+		return receipts.find((receipt) => receipt !== null) ?? undefined
+	}
+
+	const waitForReceipt = async (
+		hashes: readonly string[],
+		deadline: number
+	): Promise<TransactionReceipt | undefined> => {
+		const receipt = await findReceipt(hashes)
+		if (receipt || Date.now() > deadline) {
+			return receipt
+		}
+
+		await sleep(pollInterval)
+		return waitForReceipt(hashes, deadline)
+	}
+
+	const waitForConfirmations = async (
+		receipt: TransactionReceipt
+	): Promise<void> => {
+		const block = await libWeb3.eth.getBlockNumber()
+		if (block - receipt.blockNumber + 1 >= confirmations) {
+			return
+		}
+
+		await sleep(pollInterval)
+		return waitForConfirmations(receipt)
+	}
+
+	const finalize = (report: TransactionReport): TransactionReport => {
+		reports.push(report)
+		return report
+	}
+
+	const send = async (
+		tx: ManagedTransaction,
+		onTransactionHash?: (hash: string) => void
+	): Promise<TransactionReport> => {
+		const gas =
+			tx.gas ??
+			(await libWeb3.eth
+				.estimateGas({ from, to: tx.to, data: tx.data })
+				.then((x) =>
+					new BigNumber(x)
+						.times(1.2)
+						.integerValue(BigNumber.ROUND_CEIL)
+						.toNumber()
+				)
+				.catch((err: Error) => err))
+		if (gas instanceof Error) {
+			return finalize({ hashes: [], state: 'error', error: gas.message })
+		}
+
+		const txNonce = await reserveNonce()
+		const hashes: string[] = []
+		let gasPrice = new BigNumber(await fetchGasPrice())
+
+		for (let i = 0; i <= maxBumps; i++) {
+			// eslint-disable-next-line no-await-in-loop
+			const hash = await broadcast({
+				...tx,
+				nonce: txNonce,
+				gas,
+				gasPrice: gasPrice.toFixed(),
+			}).catch((err: Error) => err)
+			if (hash instanceof Error) {
+				if (hashes.length === 0) {
+					// The nonce was not consumed, so it should be fetched again
+					nonce = undefined
+					return finalize({
+						nonce: txNonce,
+						hashes,
+						state: 'error',
+						error: hash.message,
+					})
+				}
+
+				console.error('Could not replace the transaction', txNonce, hash)
+			} else {
+				hashes.push(hash)
+				onTransactionHash?.(hash)
+			}
+
+			// eslint-disable-next-line no-await-in-loop
+			const receipt = await waitForReceipt(hashes, Date.now() + timeout)
+			if (receipt) {
+				// eslint-disable-next-line no-await-in-loop
+				await waitForConfirmations(receipt)
+				return finalize({
+					nonce: txNonce,
+					hashes,
+					state: receipt.status ? 'confirmed' : 'reverted',
+					receipt,
+				})
+			}
+
+			// eslint-disable-next-line no-await-in-loop
+			const current = new BigNumber(await fetchGasPrice())
+			gasPrice = BigNumber.max(
+				gasPrice.times(bump).integerValue(BigNumber.ROUND_CEIL),
+				current
+			)
+			console.log('Speed up the transaction', txNonce, gasPrice.toFixed())
+		}
+
+		return finalize({ nonce: txNonce, hashes, state: 'timeout' })
+	}
+
+	return {
+		send,
+		reports: () => reports,
+	}
+}
+
+export const formatTransactionReports = (
+	reports: readonly TransactionReport[]
+): string =>
+	reports
+		.map(
+			({ nonce, hashes, state, error }) =>
+				`nonce ${nonce ?? '-'}: ${state} ${hashes.join(' -> ')}${
+					error ? ` (${error})` : ''
+				}`
+		)
+		.join('\n')
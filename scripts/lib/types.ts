@@ -71,3 +71,10 @@ export type SendTx = {
 			: (err: Readonly<Error>) => void
 	) => SendTx
 }
+export type UpgradeStorageTarget = 'Lockup' | 'Withdraw' | 'MetricsGroup'
+export type UpgradeTarget = UpgradeStorageTarget | 'PolicyFactory'
+export type UpgradePlan = {
+	readonly redeploy: readonly UpgradeTarget[]
+	readonly handover: readonly UpgradeStorageTarget[]
+	readonly devMinter?: string
+}
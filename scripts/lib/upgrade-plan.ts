@@ -0,0 +1,137 @@
+import { config } from 'dotenv'
+import Web3 from 'web3'
+import { createAddressBookWriterFromEnv } from './address-book'
+import { createGasStrategyFromEnv, strategyFetchers } from './gas-strategy'
+import { DevCommonInstance } from './instance/common'
+import { Lockup } from './instance/lockup'
+import { Withdraw } from './instance/withdraw'
+import { MetricsGroup } from './instance/metrics-group'
+import { PolicyFactory } from './instance/policy-factory'
+import { UpgradePlan, UpgradeTarget } from './types'
+
+type Redeployed = {
+	readonly name: UpgradeTarget
+	readonly changeOwner?: () => Promise<void>
+	readonly set: () => Promise<void>
+}
+
+const redeploy = async (
+	dev: DevCommonInstance,
+	name: UpgradeTarget,
+	devMinter?: string
+): Promise<Redeployed> => {
+	switch (name) {
+		case 'Lockup': {
+			const lockup = new Lockup(dev)
+			const current = await lockup.load()
+			const next = await lockup.create(devMinter)
+			return {
+				name,
+				changeOwner: async () => lockup.changeOwner(current, next),
+				set: async () => lockup.set(next),
+			}
+		}
+
+		case 'Withdraw': {
+			const withdraw = new Withdraw(dev)
+			const current = await withdraw.load()
+			const next = await withdraw.create(devMinter)
+			return {
+				name,
+				changeOwner: async () => withdraw.changeOwner(current, next),
+				set: async () => withdraw.set(next),
+			}
+		}
+
+		case 'MetricsGroup': {
+			const metricsGroup = new MetricsGroup(dev)
+			const current = await metricsGroup.load()
+			const next = await metricsGroup.create()
+			return {
+				name,
+				changeOwner: async () => metricsGroup.changeOwner(current, next),
+				set: async () => metricsGroup.set(next),
+			}
+		}
+
+		case 'PolicyFactory': {
+			const policyFactory = new PolicyFactory(dev)
+			const next = await policyFactory.create()
+			return {
+				name,
+				set: async () => policyFactory.set(next),
+			}
+		}
+
+		default:
+			throw new Error(`unknown upgrade target: ${name as string}`)
+	}
+}
+
+export const validateUpgradePlan = (plan: UpgradePlan): void => {
+	const missing = plan.handover.filter((x) => !plan.redeploy.includes(x))
+	if (missing.length > 0) {
+		throw new Error(`storage handover without redeploy: ${missing.join(', ')}`)
+	}
+
+	const duplicated = plan.redeploy.filter(
+		(x, i) => plan.redeploy.indexOf(x) !== i
+	)
+	if (duplicated.length > 0) {
+		throw new Error(`duplicated redeploy target: ${duplicated.join(', ')}`)
+	}
+}
+
+export const runUpgradePlan = async (
+	dev: DevCommonInstance,
+	plan: UpgradePlan
+): Promise<void> => {
+	validateUpgradePlan(plan)
+
+	const redeployed: Redeployed[] = []
+	for (const name of plan.redeploy) {
+		// eslint-disable-next-line no-await-in-loop
+		redeployed.push(await redeploy(dev, name, plan.devMinter))
+	}
+
+	// Delegate the storage to all new contracts
+	await Promise.all(
+		redeployed
+			.flatMap(({ name, changeOwner }) =>
+				typeof changeOwner !== 'undefined' &&
+				plan.handover.some((y) => y === name)
+					? [changeOwner]
+					: []
+			)
+			.map(async (changeOwner) => changeOwner())
+	)
+
+	// Set all new contracts
+	await Promise.all(redeployed.map(async (x) => x.set()))
+}
+
+export const createUpgradeHandler =
+	(plan: UpgradePlan) =>
+	async (callback: (err: Error | null) => void): Promise<void> => {
+		config()
+		const { CONFIG: configAddress, DRY_RUN: dryRun } = process.env
+		if (!configAddress) {
+			return
+		}
+
+		const strategy = createGasStrategyFromEnv(web3 as Web3)
+		const dev = new DevCommonInstance(
+			artifacts,
+			configAddress,
+			...strategyFetchers(strategy),
+			dryRun === 'true'
+		)
+		dev.useGasStrategy(strategy)
+		await dev.prepare()
+		dev.useAddressBook(await createAddressBookWriterFromEnv(web3 as Web3))
+
+		await runUpgradePlan(dev, plan)
+		dev.report()
+
+		callback(null)
+	}
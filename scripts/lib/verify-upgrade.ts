@@ -0,0 +1,188 @@
+/* eslint-disable @typescript-eslint/await-thenable */
+import Web3 from 'web3'
+import { DevCommonInstance } from './instance/common'
+
+export type VerificationResult = {
+	readonly name: string
+	readonly passed: boolean
+	readonly detail: string
+}
+
+const DEFAULT_ADDRESS = '0x0000000000000000000000000000000000000000'
+const ADDRESS_CONFIG_GETTERS = [
+	'token',
+	'allocator',
+	'withdraw',
+	'marketFactory',
+	'marketGroup',
+	'propertyFactory',
+	'propertyGroup',
+	'metricsGroup',
+	'metricsFactory',
+	'policy',
+	'policyFactory',
+	'policyGroup',
+	'lockup',
+	'voteCounter',
+] as const
+const STORAGE_GETTERS = [
+	'lockup',
+	'withdraw',
+	'metricsGroup',
+	'marketGroup',
+	'propertyGroup',
+	'policyGroup',
+	'voteCounter',
+] as const
+
+export type StorageGetter = typeof STORAGE_GETTERS[number]
+
+const eq = (a: string, b: string): boolean =>
+	a.toLowerCase() === b.toLowerCase()
+
+const result = (
+	name: string,
+	passed: boolean,
+	detail: string
+): VerificationResult => ({ name, passed, detail })
+
+export const createStorageOwnerCaller =
+	(libWeb3: Web3) =>
+	async (storage: string): Promise<string> => {
+		// `currentOwner` is the first and private state variable of EternalStorage
+		const slot = await libWeb3.eth.getStorageAt(storage, 0)
+		return libWeb3.utils.toChecksumAddress(
+			`0x${slot.replace(/^0x/, '').padStart(64, '0').slice(-40)}`
+		)
+	}
+
+export const verifyAddressConfig = async (
+	dev: DevCommonInstance,
+	libWeb3: Web3
+): Promise<VerificationResult[]> =>
+	Promise.all(
+		ADDRESS_CONFIG_GETTERS.map(async (getter) => {
+			const address = await dev.addressConfig[getter]()
+			if (eq(address, DEFAULT_ADDRESS)) {
+				return result(`AddressConfig.${getter}`, false, 'not set')
+			}
+
+			const code = await libWeb3.eth.getCode(address)
+			return result(
+				`AddressConfig.${getter}`,
+				code !== '0x',
+				code === '0x' ? `${address} has no code` : address
+			)
+		})
+	)
+
+export const verifyStorageOwnership = async (
+	dev: DevCommonInstance,
+	libWeb3: Web3,
+	previous: Partial<Record<StorageGetter, string>> = {}
+): Promise<VerificationResult[]> => {
+	const getStorageOwner = createStorageOwnerCaller(libWeb3)
+	const usingStorage = dev.artifacts.require('UsingStorage')
+	const results = await Promise.all(
+		STORAGE_GETTERS.map(async (getter) => {
+			const name = `${getter} storage`
+			const current = await usingStorage.at(await dev.addressConfig[getter]())
+			const storage = await current
+				.getStorageAddress()
+				.catch((err: Error) => err)
+			if (storage instanceof Error) {
+				return [result(name, false, storage.message)]
+			}
+
+			const owner = await getStorageOwner(storage)
+			const ownership = result(
+				`${name} owner`,
+				eq(owner, current.address),
+				`storage ${storage} is owned by ${owner}`
+			)
+			const before = previous[getter]
+			if (typeof before === 'undefined') {
+				return [ownership]
+			}
+
+			const prev = await usingStorage.at(before)
+			const prevStorage = await prev.getStorageAddress()
+			return [
+				ownership,
+				result(
+					`${name} handover`,
+					eq(prevStorage, storage),
+					`${prev.address} uses ${prevStorage}, ${current.address} uses ${storage}`
+				),
+				result(
+					`${name} previous owner`,
+					!eq(owner, prev.address),
+					`${prev.address} ${
+						eq(owner, prev.address) ? 'still owns' : 'no longer owns'
+					} ${storage}`
+				),
+			]
+		})
+	)
+	return results.flat()
+}
+
+export const verifyDevMinter = async (
+	dev: DevCommonInstance
+): Promise<VerificationResult[]> => {
+	const [lockup, withdraw] = await Promise.all([
+		dev.addressConfig
+			.lockup()
+			.then(async (x) => dev.artifacts.require('Lockup').at(x)),
+		dev.addressConfig
+			.withdraw()
+			.then(async (x) => dev.artifacts.require('Withdraw').at(x)),
+	])
+	const [lockupMinter, withdrawMinter] = await Promise.all([
+		lockup.devMinter(),
+		withdraw.devMinter(),
+	])
+	const isMinter = await dev.dev.isMinter(lockupMinter)
+	return [
+		result(
+			'devMinter',
+			eq(lockupMinter, withdrawMinter),
+			`Lockup uses ${lockupMinter}, Withdraw uses ${withdrawMinter}`
+		),
+		result(
+			'devMinter minter role',
+			isMinter,
+			`${lockupMinter} is ${isMinter ? '' : 'not '}a minter of Dev`
+		),
+	]
+}
+
+export const verifyUpgrade = async (
+	dev: DevCommonInstance,
+	libWeb3: Web3,
+	previous: Partial<Record<StorageGetter, string>> = {}
+): Promise<VerificationResult[]> => {
+	const addressConfig = await verifyAddressConfig(dev, libWeb3)
+	if (addressConfig.some(({ passed }) => !passed)) {
+		return addressConfig
+	}
+
+	const [storage, devMinter] = await Promise.all([
+		verifyStorageOwnership(dev, libWeb3, previous),
+		verifyDevMinter(dev),
+	])
+	return [...addressConfig, ...storage, ...devMinter]
+}
+
+export const formatVerificationReport = (
+	results: readonly VerificationResult[]
+): string => {
+	const failed = results.filter(({ passed }) => !passed).length
+	return [
+		...results.map(
+			({ name, passed, detail }) =>
+				`[${passed ? 'PASS' : 'FAIL'}] ${name}: ${detail}`
+		),
+		`${results.length - failed} passed, ${failed} failed`,
+	].join('\n')
+}
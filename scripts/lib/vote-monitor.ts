@@ -0,0 +1,166 @@
+/* eslint-disable no-useless-call */
+import Web3 from 'web3'
+import { AbiItem } from 'web3-utils/types'
+import { createQueue, createRegistry } from './bulk-initializer'
+import { EventIndexer } from './event-indexer'
+import { storageKey, storageKeys } from './storage-keys'
+import builtVoteCounter from '../../build/contracts/VoteCounter.json'
+import builtPolicy from '../../build/contracts/IPolicy.json'
+import builtMarket from '../../build/contracts/Market.json'
+import builtMarketGroup from '../../build/contracts/MarketGroup.json'
+import builtPolicyGroup from '../../build/contracts/PolicyGroup.json'
+import builtEternalStorage from '../../build/contracts/EternalStorage.json'
+
+export type VoteTarget = 'market' | 'policy'
+export type PendingVote = {
+	readonly type: VoteTarget
+	readonly address: string
+	readonly agree: string
+	readonly opposite: string
+	readonly votingEndBlockNumber: number
+	readonly remainingBlocks: number
+	readonly approval: boolean
+}
+
+const contractOf = (libWeb3: Web3, abi: readonly unknown[], address: string) =>
+	new libWeb3.eth.Contract(abi as AbiItem[], address)
+
+/**
+ * Lists the markets not enabled yet and the policies of the current voting group
+ * whose voting is still open at the block, with the votes and the result of the approval
+ * of the current Policy if a vote were cast now.
+ */
+export const fetchPendingVotes = async (
+	configAddress: string,
+	libWeb3: Web3,
+	indexer: EventIndexer,
+	block: number
+): Promise<PendingVote[]> => {
+	const registry = createRegistry(configAddress, libWeb3)
+	const call = async <T>(
+		contract: ReturnType<typeof contractOf>,
+		method: string,
+		...args: readonly unknown[]
+	): Promise<T> =>
+		contract.methods[method](...args).call(undefined, block) as Promise<T>
+	const [
+		voteCounterAddress,
+		policyAddress,
+		marketGroupAddress,
+		policyGroupAddress,
+	] = await Promise.all(
+		['voteCounter', 'policy', 'marketGroup', 'policyGroup'].map(async (name) =>
+			call<string>(registry, name)
+		)
+	)
+	const voteCounter = contractOf(
+		libWeb3,
+		builtVoteCounter.abi,
+		voteCounterAddress
+	)
+	const policy = contractOf(libWeb3, builtPolicy.abi, policyAddress)
+	const marketGroup = contractOf(
+		libWeb3,
+		builtMarketGroup.abi,
+		marketGroupAddress
+	)
+	const policyGroup = contractOf(
+		libWeb3,
+		builtPolicyGroup.abi,
+		policyGroupAddress
+	)
+	// PolicyGroup has no getter of the voting deadline, so it is read from the storage
+	const policyGroupStorage = contractOf(
+		libWeb3,
+		builtEternalStorage.abi,
+		await call<string>(policyGroup, 'getStorageAddress')
+	)
+
+	const summarize = async (
+		type: VoteTarget,
+		address: string,
+		votingEndBlockNumber: number
+	): Promise<PendingVote> => {
+		const [agree, opposite] = await Promise.all([
+			call<string>(voteCounter, 'getStorageAgreeCount', address),
+			call<string>(voteCounter, 'getStorageOppositeCount', address),
+		])
+		const approval = await call<boolean>(
+			policy,
+			type === 'market' ? 'marketApproval' : 'policyApproval',
+			agree,
+			opposite
+		)
+		return {
+			type,
+			address,
+			agree,
+			opposite,
+			votingEndBlockNumber,
+			remainingBlocks: votingEndBlockNumber - block,
+			approval,
+		}
+	}
+
+	const pendingMarket = async (
+		address: string
+	): Promise<PendingVote | undefined> => {
+		const contract = contractOf(libWeb3, builtMarket.abi, address)
+		const [isGroup, enabled, votingEnd] = await Promise.all([
+			call<boolean>(marketGroup, 'isGroup', address),
+			call<boolean>(contract, 'enabled'),
+			call<string>(contract, 'votingEndBlockNumber'),
+		])
+		return isGroup && !enabled && block <= Number(votingEnd)
+			? summarize('market', address, Number(votingEnd))
+			: undefined
+	}
+
+	const pendingPolicy = async (
+		address: string
+	): Promise<PendingVote | undefined> => {
+		const [isGroup, votingEnd] = await Promise.all([
+			call<boolean>(policyGroup, 'isGroup', address),
+			call<string>(
+				policyGroupStorage,
+				'getUint',
+				storageKey(storageKeys.PolicyGroup.votingEndBlockNumber, [address])
+			),
+		])
+		return isGroup &&
+			address.toLowerCase() !== policyAddress.toLowerCase() &&
+			block <= Number(votingEnd)
+			? summarize('policy', address, Number(votingEnd))
+			: undefined
+	}
+
+	const [markets, policies] = await Promise.all([
+		indexer.markets(),
+		indexer.policies(),
+	])
+	const created = ({ block_number }: { block_number: number }): boolean =>
+		block_number <= block
+	const votes = await createQueue(10).addAll([
+		...markets.filter(created).map(
+			({ address }) =>
+				async () =>
+					pendingMarket(address)
+		),
+		...policies.filter(created).map(
+			({ address }) =>
+				async () =>
+					pendingPolicy(address)
+		),
+	])
+	return votes.filter((x): x is PendingVote => typeof x !== 'undefined')
+}
+
+export const formatPendingVotes = (votes: readonly PendingVote[]): string =>
+	votes
+		.map(
+			({ type, address, agree, opposite, remainingBlocks, approval }) =>
+				`${type} ${address}: agree ${agree}, opposite ${opposite}, ${remainingBlocks} blocks remaining, ${
+					approval ? 'passes' : 'does not pass'
+				} now`
+		)
+		.join('\n')
@@ -0,0 +1,51 @@
+import Web3 from 'web3'
+import { readFileSync, writeFileSync } from 'fs'
+import { config } from 'dotenv'
+import { createEventIndexerFromEnv } from './lib/event-indexer'
+import {
+	collectSnapshotPairs,
+	diffStateSnapshots,
+	StateSnapshot,
+	takeStateSnapshot,
+} from './lib/state-snapshot'
+
+config()
+const { CONFIG: configAddress, BLOCK, OUTPUT, BEFORE: before } = process.env
+
+const handler = async (
+	callback: (err: Error | null) => void
+): Promise<void> => {
+	if (!configAddress) {
+		return
+	}
+
+	const block = BLOCK
+		? Number(BLOCK)
+		: await (web3 as Web3).eth.getBlockNumber()
+	const indexer = await createEventIndexerFromEnv(configAddress, web3, {
+		...process.env,
+		TO_BLOCK: String(block),
+	})
+	const pairs = await collectSnapshotPairs(indexer, web3, block)
+	console.log('snapshot pairs', pairs.length, 'at block', block)
+
+	const snapshot = await takeStateSnapshot(configAddress, web3, pairs, block)
+	const output = OUTPUT ?? `state-snapshot-${block}.json`
+	writeFileSync(output, `${JSON.stringify(snapshot, null, 2)}\n`)
+	console.log('wrote', output)
+
+	if (before) {
+		const differences = diffStateSnapshots(
+			JSON.parse(readFileSync(before, 'utf8')) as StateSnapshot,
+			snapshot
+		)
+		console.log(`${differences.length} values differ from ${before}`)
+		for (const { path, before: a, after: b } of differences) {
+			console.log(path, JSON.stringify(a), '->', JSON.stringify(b))
+		}
+	}
+
+	callback(null)
+}
+
+export = handler
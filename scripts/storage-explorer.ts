@@ -0,0 +1,81 @@
+import { config } from 'dotenv'
+import {
+	createStorageReader,
+	getModuleStorageAddress,
+	getStorageKeyDefinition,
+	isStorageModule,
+	storageKey,
+	storageKeyParams,
+	storageKeys,
+	StorageValueType,
+} from './lib/storage-keys'
+
+config()
+const {
+	CONFIG: configAddress,
+	MODULE: module,
+	KEY: name,
+	ARGS: args,
+	STORAGE: storage,
+	HASH: hash,
+	TYPE: type = 'uint',
+	BLOCK,
+} = process.env
+
+const handler = async (
+	callback: (err: Error | null) => void
+): Promise<void> => {
+	// Without KEY nor HASH, lists the keys of the registry
+	if (!name && !hash) {
+		for (const [moduleName, keys] of Object.entries(storageKeys)) {
+			if (module && module !== moduleName) {
+				continue
+			}
+
+			for (const [keyName, definition] of Object.entries(keys)) {
+				const params = storageKeyParams(definition)
+					.map((x) => `${x.type} ${x.name}`)
+					.join(', ')
+				console.log(`${moduleName}.${keyName}(${params}): ${definition.type}`)
+			}
+		}
+
+		callback(null)
+		return
+	}
+
+	if (!module || !isStorageModule(module)) {
+		throw new Error(
+			`MODULE should be one of ${Object.keys(storageKeys).join(', ')}`
+		)
+	}
+
+	const block = BLOCK ? Number(BLOCK) : undefined
+	const storageAddress =
+		storage ??
+		(configAddress
+			? await getModuleStorageAddress(configAddress, web3, module, block)
+			: undefined)
+	if (!storageAddress) {
+		throw new Error('STORAGE or CONFIG is required')
+	}
+
+	const definition = name
+		? getStorageKeyDefinition(module, name)
+		: { type: type as StorageValueType, parts: [] }
+	const keyHash =
+		hash ??
+		storageKey(definition, args ? args.split(',').map((x) => x.trim()) : [])
+	const value = await createStorageReader(
+		web3,
+		storageAddress,
+		block
+	)(definition.type, keyHash)
+	console.log(`${module}.${name ?? keyHash} at ${storageAddress}`)
+	console.log('key', keyHash)
+	console.log(definition.type, value)
+
+	callback(null)
+}
+
+export = handler
@@ -1,4 +1,6 @@
+import Web3 from 'web3'
 import { DevCommonInstance } from './lib/instance/common'
+import { createAddressBookWriterFromEnv } from './lib/address-book'
 import { PolicyFactory } from './lib/instance/policy-factory'
 import { PropertyFactory } from './lib/instance/property-factory'
 import { config } from 'dotenv'
@@ -12,6 +14,7 @@ const {
 	CONFIG: configAddress,
 	EGS_TOKEN: egsApiKey,
 	TRESUARY_ADDRESS: tresauryAddress,
+	DRY_RUN: dryRun,
 } = process.env
 
 const handler = async (
@@ -27,18 +30,22 @@ const handler = async (
 		artifacts,
 		configAddress,
 		gasFetcher,
-		gasPriceFetcher
+		gasPriceFetcher,
+		dryRun === 'true'
 	)
 	await dev.prepare()
+	dev.useAddressBook(await createAddressBookWriterFromEnv(web3 as Web3))
 
 	// Policy
-	const newPolicy = await artifacts
+	const newPolicy = await dev.artifacts
 		.require('TreasuryFee')
 		.new(dev.addressConfig.address, await dev.gasInfo)
 	console.log('new policy was created:', newPolicy.address)
 	// Tresuary
 	await newPolicy.setTreasury(tresauryAddress!, await dev.gasInfo)
-	console.log('tresuary address was settted:', await newPolicy.treasury())
+	if (!dev.isDryRun) {
+		console.log('tresuary address was settted:', await newPolicy.treasury())
+	}
 
 	// PolicyFactory
 	const policyFacgtory = new PolicyFactory(dev)
@@ -55,6 +62,7 @@ const handler = async (
 	const propertyFactory = new PropertyFactory(dev)
 	const nextPropertyFactory = await propertyFactory.create()
 	await propertyFactory.set(nextPropertyFactory)
+	dev.report()
 
 	callback(null)
 }
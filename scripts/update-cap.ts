@@ -0,0 +1,70 @@
+import Web3 from 'web3'
+import { config } from 'dotenv'
+import { capFormulas, createCapSetter } from './lib/cap-setter'
+import { createEventIndexerFromEnv } from './lib/event-indexer'
+import { createGasStrategyFromEnv, feePerGas } from './lib/gas-strategy'
+import { createTransactionManager } from './lib/transaction-manager'
+
+config()
+const {
+	CONFIG: configAddress,
+	DRY_RUN: dryRun,
+	CAP_FORMULA: formulaName = 'geometric-mean',
+	CAP_THRESHOLD: threshold,
+	CAP_LOG: log,
+	CAP_INTERVAL: interval,
+} = process.env
+
+const sleep = async (ms: number): Promise<void> =>
+	new Promise((resolve) => {
+		setTimeout(resolve, ms)
+	})
+
+const handler = async (
+	callback: (err: Error | null) => void
+): Promise<void> => {
+	if (!configAddress) {
+		return
+	}
+
+	const formula = capFormulas[formulaName]
+	if (!formula) {
+		throw new Error(`unknown cap formula: ${formulaName}`)
+	}
+
+	const [from] = await (web3 as Web3).eth.getAccounts()
+	const strategy = createGasStrategyFromEnv(web3)
+	const manager = createTransactionManager(web3, {
+		from,
+		gasPrice: async () => strategy.gasInfo().then(feePerGas),
+	})
+
+	// Runs once, or every CAP_INTERVAL ms with the logs indexed again
+	for (;;) {
+		// eslint-disable-next-line no-await-in-loop
+		const indexer = await createEventIndexerFromEnv(configAddress, web3)
+		// eslint-disable-next-line no-await-in-loop
+		const updates = await createCapSetter(configAddress, web3, indexer, {
+			from,
+			manager,
+			formula,
+			threshold: threshold ? Number(threshold) : undefined,
+			dryRun: dryRun === 'true',
+			log,
+		}).run()
+		for (const update of updates) {
+			console.log('UpdateCap', update)
+		}
+
+		if (!interval) {
+			break
+		}
+
+		// eslint-disable-next-line no-await-in-loop
+		await sleep(Number(interval))
+	}
+
+	callback(null)
+}
+
+export = handler
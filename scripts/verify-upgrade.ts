@@ -0,0 +1,43 @@
+import Web3 from 'web3'
+import { config } from 'dotenv'
+import { DevCommonInstance } from './lib/instance/common'
+import { formatVerificationReport, verifyUpgrade } from './lib/verify-upgrade'
+
+config()
+const {
+	CONFIG: configAddress,
+	PREVIOUS_LOCKUP: lockup,
+	PREVIOUS_WITHDRAW: withdraw,
+	PREVIOUS_METRICS_GROUP: metricsGroup,
+} = process.env
+
+const handler = async (
+	callback: (err: Error | null) => void
+): Promise<void> => {
+	if (!configAddress) {
+		return
+	}
+
+	const dev = new DevCommonInstance(
+		artifacts,
+		configAddress,
+		async () => 6721975,
+		async () => (web3 as Web3).eth.getGasPrice()
+	)
+	await dev.prepare()
+
+	const results = await verifyUpgrade(dev, web3 as Web3, {
+		lockup,
+		withdraw,
+		metricsGroup,
+	})
+	console.log(formatVerificationReport(results))
+
+	callback(
+		results.every(({ passed }) => passed)
+			? null
+			: new Error('upgrade verification failed')
+	)
+}
+
+export = handler
@@ -0,0 +1,30 @@
+import Web3 from 'web3'
+import { config } from 'dotenv'
+import { createEventIndexerFromEnv } from './lib/event-indexer'
+import { fetchPendingVotes, formatPendingVotes } from './lib/vote-monitor'
+
+config()
+const { CONFIG: configAddress, BLOCK } = process.env
+
+const handler = async (
+	callback: (err: Error | null) => void
+): Promise<void> => {
+	if (!configAddress) {
+		return
+	}
+
+	const block = BLOCK
+		? Number(BLOCK)
+		: await (web3 as Web3).eth.getBlockNumber()
+	const indexer = await createEventIndexerFromEnv(configAddress, web3, {
+		...process.env,
+		TO_BLOCK: String(block),
+	})
+	const votes = await fetchPendingVotes(configAddress, web3, indexer, block)
+	console.log(`${votes.length} pending votes at block ${block}`)
+	console.log(formatPendingVotes(votes))
+
+	callback(null)
+}
+
+export = handler
@@ -0,0 +1,152 @@
+import {
+	DevProtocolInstance,
+	resolveModules,
+	validateBuildOptions,
+} from '../test-lib/instance'
+import { DEFAULT_ADDRESS } from '../test-lib/const'
+
+contract('DevProtocolInstanceTest', ([deployer, author]) => {
+	describe('validateBuildOptions', () => {
+		it('Throws when a module misses the modules it calls', () => {
+			expect(() => {
+				validateBuildOptions({ modules: ['Withdraw'] })
+			}).to.throw(
+				'Withdraw requires the modules: Allocator, Lockup, MetricsGroup, PropertyGroup'
+			)
+		})
+		it('Accepts the test module in place of the module', () => {
+			expect(() => {
+				validateBuildOptions({
+					modules: [
+						'Allocator',
+						'LockupTest',
+						'MetricsGroup',
+						'PropertyGroup',
+						'Withdraw',
+					],
+				})
+			}).to.not.throw()
+		})
+		it('Throws when both of the module and its test module are passed', () => {
+			expect(() => {
+				validateBuildOptions({
+					modules: [
+						'Allocator',
+						'Lockup',
+						'LockupTest',
+						'MetricsGroup',
+						'PropertyGroup',
+						'Withdraw',
+					],
+				})
+			}).to.throw('Lockup and LockupTest can not be deployed together')
+		})
+		it('Throws when the properties are passed without a policy', () => {
+			expect(() => {
+				validateBuildOptions({ properties: [{ author }] })
+			}).to.throw('the properties require a policy')
+		})
+	})
+	describe('resolveModules', () => {
+		it('Adds the dependencies of the modules and of the added ones', () => {
+			expect(
+				[...resolveModules({ modules: ['VoteCounter'] })].sort()
+			).to.be.deep.equal(
+				[
+					'Allocator',
+					'Lockup',
+					'MarketGroup',
+					'MetricsGroup',
+					'PolicyFactory',
+					'PolicyGroup',
+					'PropertyGroup',
+					'VoteCounter',
+					'Withdraw',
+				].sort()
+			)
+		})
+		it('Does not add the module that the test module takes the place of', () => {
+			expect(
+				[...resolveModules({ modules: ['WithdrawTest', 'LockupTest'] })].sort()
+			).to.be.deep.equal(
+				[
+					'Allocator',
+					'LockupTest',
+					'MetricsGroup',
+					'PropertyGroup',
+					'WithdrawTest',
+				].sort()
+			)
+		})
+		it('Adds the modules required by the policy and the properties', () => {
+			expect(
+				[
+					...resolveModules({
+						modules: [],
+						policy: 'PolicyTestBase',
+						properties: [{ author, metrics: 1 }],
+					}),
+				].sort()
+			).to.be.deep.equal(
+				[
+					'Allocator',
+					'Lockup',
+					'MetricsGroup',
+					'PolicyFactory',
+					'PolicyGroup',
+					'PropertyFactory',
+					'PropertyGroup',
+					'Withdraw',
+				].sort()
+			)
+		})
+	})
+	describe('build', () => {
+		it('Deploys the dependencies of the passed modules', async () => {
+			const {
+				dev,
+				properties: [{ property }],
+			} = await new DevProtocolInstance(deployer).build({
+				modules: ['Withdraw'],
+				policy: 'PolicyTestBase',
+				properties: [{ author, metrics: 1 }],
+			})
+			const addresses = await Promise.all([
+				dev.addressConfig.allocator(),
+				dev.addressConfig.lockup(),
+				dev.addressConfig.metricsGroup(),
+				dev.addressConfig.propertyGroup(),
+			])
+			expect(addresses).to.not.include(DEFAULT_ADDRESS)
+			// Reverts if Withdraw misses a module it calls
+			const amount = await dev.withdraw.calculateWithdrawableAmount(
+				property.address,
+				author
+			)
+			expect(amount.toString()).to.be.equal('0')
+		})
+		it('Deploys none of the modules out of the listed ones and their dependencies', async () => {
+			const { dev, policy } = await new DevProtocolInstance(deployer).build({
+				modules: [
+					'Allocator',
+					'MetricsGroup',
+					'PolicyFactory',
+					'PolicyGroup',
+					'Lockup',
+				],
+				policy: 'PolicyTestBase',
+			})
+			const [lockup, policyAddress, marketFactory, voteCounter] =
+				await Promise.all([
+					dev.addressConfig.lockup(),
+					dev.addressConfig.policy(),
+					dev.addressConfig.marketFactory(),
+					dev.addressConfig.voteCounter(),
+				])
+			expect(lockup).to.be.equal(dev.lockup.address)
+			expect(policyAddress).to.be.equal(policy!.address)
+			expect(marketFactory).to.be.equal(DEFAULT_ADDRESS)
+			expect(voteCounter).to.be.equal(DEFAULT_ADDRESS)
+		})
+	})
+})
@@ -0,0 +1,83 @@
+import {
+	EternalStorageInstance,
+	StorageMigrationInstance,
+	UsingStorageTestInstance,
+} from '../../../types/truffle-contracts'
+import {
+	validateErrorMessage,
+	validateNotOwnerErrorMessage,
+} from '../../test-lib/utils/error'
+
+contract('StorageMigrationTest', ([deployer, user1]) => {
+	const keys = ['_a', '_b'].map((x) => web3.utils.keccak256(x))
+	let migration: StorageMigrationInstance
+	let eternalStorage: EternalStorageInstance
+	beforeEach(async () => {
+		migration = await artifacts
+			.require('StorageMigration')
+			.new({ from: deployer })
+		await migration.createStorage()
+		// eslint-disable-next-line @typescript-eslint/await-thenable
+		eternalStorage = await artifacts
+			.require('EternalStorage')
+			.at(await migration.getStorageAddress())
+	})
+	describe('StorageMigration; setUints', () => {
+		it('Sets the values of the keys.', async () => {
+			await migration.setUints(keys, [1, 2])
+			const results = await Promise.all(
+				keys.map(async (key) => eternalStorage.getUint(key))
+			)
+			expect(results.map((x) => x.toNumber())).to.be.deep.equal([1, 2])
+		})
+		it('Should fail when the lengths are different.', async () => {
+			const result = await migration
+				.setUints(keys, [1])
+				.catch((err: Error) => err)
+			validateErrorMessage(result, 'illegal length')
+		})
+		it('Should fail to call when the sender is not the owner.', async () => {
+			const result = await migration
+				.setUints(keys, [1, 2], { from: user1 })
+				.catch((err: Error) => err)
+			validateNotOwnerErrorMessage(result)
+		})
+	})
+	describe('StorageMigration; setBools', () => {
+		it('Sets the values of the keys.', async () => {
+			await migration.setBools(keys, [true, false])
+			const results = await Promise.all(
+				keys.map(async (key) => eternalStorage.getBool(key))
+			)
+			expect(results).to.be.deep.equal([true, false])
+		})
+		it('Should fail when the lengths are different.', async () => {
+			const result = await migration
+				.setBools(keys, [true])
+				.catch((err: Error) => err)
+			validateErrorMessage(result, 'illegal length')
+		})
+		it('Should fail to call when the sender is not the owner.', async () => {
+			const result = await migration
+				.setBools(keys, [true, true], { from: user1 })
+				.catch((err: Error) => err)
+			validateNotOwnerErrorMessage(result)
+		})
+	})
+	describe('StorageMigration; changeOwner', () => {
+		it('The module can write to the new storage after the handover.', async () => {
+			const usingStorage: UsingStorageTestInstance = await artifacts
+				.require('UsingStorageTest')
+				.new({ from: deployer })
+			await migration.setUints(keys, [1, 2])
+			await migration.changeOwner(usingStorage.address)
+			await usingStorage.setStorage(eternalStorage.address)
+			await usingStorage.setUInt(3)
+			expect((await usingStorage.getUInt()).toNumber()).to.be.equal(3)
+			const result = await migration
+				.setUints(keys, [1, 2])
+				.catch((err: Error) => err)
+			validateErrorMessage(result, 'not current owner')
+		})
+	})
+})
@@ -0,0 +1,362 @@
+import { DevProtocolInstance } from '../test-lib/instance'
+import { PropertyInstance } from '../../types/truffle-contracts'
+import BigNumber from 'bignumber.js'
+import { mine, toBigNumber, getBlock } from '../test-lib/utils/common'
+import { createRandom, Random, shrink } from '../test-lib/utils/fuzz'
+import {
+	trackMintedRewards,
+	validateLockedValue,
+} from '../test-lib/utils/invariant'
+import {
+	simulateStaking,
+	SimulatedBlock,
+	StakingEvent,
+} from '../../scripts/lib/staking-simulator'
+import { createHolderRewardLedger } from '../../scripts/lib/holder-reward'
+import { policyTestBase } from '../../scripts/lib/policy-formula'
+
+type Step =
+	| { readonly type: 'deposit'; readonly user: number; readonly amount: string }
+	| { readonly type: 'withdraw'; readonly user: number; readonly share: number }
+	| { readonly type: 'mine'; readonly blocks: number }
+	| { readonly type: 'updateCap'; readonly cap: string }
+	| {
+			readonly type: 'transfer'
+			readonly from: number
+			readonly to: number
+			readonly share: number
+	  }
+	| { readonly type: 'holderWithdraw'; readonly user: number }
+
+const { FUZZ_SEED, FUZZ_RUNS, FUZZ_STEPS = '20', FUZZ_SHRINK } = process.env
+
+// The seeds of the regular test run, so that it is reproducible
+const defaultSeeds = [1, 20210923, 3141592653]
+
+contract('LockupFuzzTest', ([deployer, user1, user2, user3]) => {
+	const stakers = [deployer, user1, user3]
+	const holders = [user2, user1, user3]
+	const initialCap = '115792089237316000000000000000000000'
+
+	const init = async (): Promise<[DevProtocolInstance, PropertyInstance]> => {
+		const {
+			dev,
+			properties: [{ property }],
+		} = await new DevProtocolInstance(deployer).build({
+			policy: 'PolicyTestBase',
+			mint: Object.fromEntries(
+				stakers.map((user) => [user, new BigNumber(1e18).times(10000000)])
+			),
+			properties: [{ author: user2, metrics: 1 }],
+		})
+		return [dev, property]
+	}
+
+	const generate = (random: Random, length: number): Step[] =>
+		[...new Array(length)].map((): Step => {
+			switch (
+				random.pick([
+					'deposit',
+					'withdraw',
+					'mine',
+					'cap',
+					'transfer',
+					'holder',
+				])
+			) {
+				case 'deposit':
+					return {
+						type: 'deposit',
+						user: random.int(0, stakers.length - 1),
+						amount: toBigNumber(random.int(1, 1000000)).times(1e12).toFixed(),
+					}
+				case 'withdraw':
+					return {
+						type: 'withdraw',
+						user: random.int(0, stakers.length - 1),
+						share: random.pick([0, 0.5, 1]),
+					}
+				case 'mine':
+					return { type: 'mine', blocks: random.int(1, 10) }
+				case 'cap':
+					return { type: 'updateCap', cap: String(random.int(0, 1000000)) }
+				case 'transfer':
+					return {
+						type: 'transfer',
+						from: random.int(0, holders.length - 1),
+						to: random.int(0, holders.length - 1),
+						share: random.pick([0.1, 0.5, 1]),
+					}
+				default:
+					return {
+						type: 'holderWithdraw',
+						user: random.int(0, holders.length - 1),
+					}
+			}
+		})
+
+	/**
+	 * Runs the steps on a fresh deployment and the TS model side by side,
+	 * and returns the first mismatch of the views.
+	 */
+	const run = async (steps: readonly Step[]): Promise<string | undefined> => {
+		const [dev, property] = await init()
+		const p = property.address.toLowerCase()
+		const mintedRewards = await trackMintedRewards(dev)
+		const tx = await dev.lockup.update()
+		const timeline: StakingEvent[] = [
+			{
+				type: 'assets',
+				block: tx.receipt.blockNumber,
+				property: p,
+				count: 1,
+			},
+			{ type: 'update', block: tx.receipt.blockNumber },
+		]
+		const totalSupply = await dev.dev.totalSupply().then(toBigNumber)
+		// The Property mints a share of the supply to the treasury
+		const [authorBalance, treasuryBalance] = await Promise.all([
+			property.balanceOf(user2).then(toBigNumber),
+			property.balanceOf(dev.treasury.address).then(toBigNumber),
+		])
+		const ledger = createHolderRewardLedger({
+			author: user2,
+			totalSupply: await property.totalSupply().then(toBigNumber),
+			balances: {
+				[user2]: authorBalance,
+				[dev.treasury.address]: treasuryBalance,
+			},
+		})
+		const staked = new Map<string, BigNumber>()
+		const stakedOf = (user: string): BigNumber =>
+			staked.get(user) ?? new BigNumber(0)
+		const observe = (block: number): SimulatedBlock => {
+			const { blocks } = simulateStaking(timeline, {
+				policy: policyTestBase,
+				totalSupply,
+				cap: initialCap,
+				toBlock: block,
+			})
+			return blocks[blocks.length - 1]
+		}
+
+		const compare = async (index: number): Promise<string | undefined> => {
+			const block = await getBlock()
+			const { interest, holders: holdersReward } = observe(block)
+			const expected = holdersReward[p]
+			const mismatches: string[] = []
+			const check = (
+				name: string,
+				actual: BigNumber | string,
+				model: BigNumber
+			): void => {
+				if (!model.isEqualTo(actual)) {
+					mismatches.push(
+						`${name}: chain ${toBigNumber(
+							actual
+						).toFixed()}, model ${model.toFixed()}`
+					)
+				}
+			}
+
+			// Truffle returns the multiple values as an object with the index keys
+			const [allValue, { 0: reward, 1: cap }] = await Promise.all([
+				dev.lockup.getAllValue(),
+				dev.lockup.calculateRewardAmount(p),
+			])
+			check(
+				'getAllValue',
+				allValue.toString(),
+				[...staked.values()].reduce((a, b) => a.plus(b), new BigNumber(0))
+			)
+			check('calculateRewardAmount reward', reward.toString(), expected.reward)
+			check('calculateRewardAmount cap', cap.toString(), expected.cap)
+			for (const user of stakers) {
+				// eslint-disable-next-line no-await-in-loop
+				const actual = await dev.lockup.calculateWithdrawableInterestAmount(
+					p,
+					user
+				)
+				check(
+					`calculateWithdrawableInterestAmount ${user}`,
+					actual.toString(),
+					interest[p]?.[user.toLowerCase()] ?? new BigNumber(0)
+				)
+			}
+
+			for (const user of holders) {
+				// eslint-disable-next-line no-await-in-loop
+				const { 0: actual } = await dev.withdraw.calculateRewardAmount(p, user)
+				check(
+					`Withdraw.calculateRewardAmount ${user}`,
+					actual.toString(),
+					ledger.calculateRewardAmount(user, expected).amount
+				)
+			}
+
+			return mismatches.length > 0
+				? `after step ${index}, block ${block}\n${mismatches.join('\n')}`
+				: undefined
+		}
+
+		const apply = async (step: Step): Promise<void> => {
+			switch (step.type) {
+				case 'deposit': {
+					const user = stakers[step.user]
+					const res = await dev.dev.deposit(p, step.amount, { from: user })
+					timeline.push({
+						type: 'lockup',
+						block: res.receipt.blockNumber,
+						property: p,
+						user,
+						value: step.amount,
+					})
+					staked.set(user, stakedOf(user).plus(step.amount))
+					break
+				}
+
+				case 'withdraw': {
+					const user = stakers[step.user]
+					const amount = stakedOf(user)
+						.times(step.share)
+						.integerValue(BigNumber.ROUND_FLOOR)
+					const res = await dev.lockup.withdraw(p, amount.toFixed(), {
+						from: user,
+					})
+					timeline.push({
+						type: 'withdraw',
+						block: res.receipt.blockNumber,
+						property: p,
+						user,
+						value: amount,
+					})
+					staked.set(user, stakedOf(user).minus(amount))
+					break
+				}
+
+				case 'mine':
+					await mine(step.blocks)
+					break
+				case 'updateCap': {
+					const res = await dev.lockup.updateCap(step.cap)
+					timeline.push({
+						type: 'updateCap',
+						block: res.receipt.blockNumber,
+						cap: step.cap,
+					})
+					break
+				}
+
+				case 'transfer': {
+					const from = holders[step.from]
+					const to = holders[step.to]
+					const amount = ledger
+						.balanceOf(from)
+						.times(step.share)
+						.integerValue(BigNumber.ROUND_FLOOR)
+					// Property reverts a transfer of zero
+					if (amount.isZero()) {
+						break
+					}
+
+					const res = await property.transfer(to, amount.toFixed(), { from })
+					ledger.transfer(
+						from,
+						to,
+						amount,
+						observe(res.receipt.blockNumber).holders[p]
+					)
+					break
+				}
+
+				case 'holderWithdraw': {
+					const user = holders[step.user]
+					const next = (await getBlock()) + 1
+					const { amount } = ledger.calculateRewardAmount(
+						user,
+						observe(next).holders[p]
+					)
+					const res = await dev.withdraw
+						.withdraw(p, { from: user })
+						.catch((err: Error) => err)
+					if (res instanceof Error) {
+						if (!amount.isZero()) {
+							throw new Error(`Withdraw.withdraw reverted: ${res.message}`)
+						}
+
+						break
+					}
+
+					const block = res.receipt.blockNumber
+					const value = ledger.withdraw(user, observe(block).holders[p])
+					timeline.push({ type: 'mint', block, amount: value })
+					timeline.push({ type: 'update', block })
+					break
+				}
+
+				default:
+					break
+			}
+		}
+
+		for (const [index, step] of steps.entries()) {
+			// eslint-disable-next-line no-await-in-loop
+			const failure = await apply(step)
+				.then(async () => compare(index))
+				.then(async (mismatch) => {
+					if (typeof mismatch === 'undefined') {
+						await validateLockedValue(dev)
+						await mintedRewards.validate()
+					}
+
+					return mismatch
+				})
+				.catch((err: Error) => `step ${index} failed: ${err.message}`)
+			if (failure) {
+				return failure
+			}
+		}
+
+		return undefined
+	}
+
+	// FUZZ_RUNS draws random seeds instead of the default ones
+	const seeds = FUZZ_SEED
+		? [Number(FUZZ_SEED)]
+		: FUZZ_RUNS
+		? [...new Array(Number(FUZZ_RUNS))].map(() =>
+				Math.floor(Math.random() * 4294967296)
+		  )
+		: defaultSeeds
+
+	describe('Lockup and Withdraw; compare with the TS model', () => {
+		seeds.forEach((seed) => {
+			it(`matches the model with the seed ${seed}`, async () => {
+				const steps = generate(createRandom(seed), Number(FUZZ_STEPS))
+				const failure = await run(steps)
+				if (typeof failure === 'undefined') {
+					return
+				}
+
+				// Shrinking deploys again for each candidate, so only on demand
+				if (FUZZ_SHRINK !== 'true') {
+					expect.fail(
+						`seed ${seed}: ${failure}\nsteps: ${JSON.stringify(
+							steps
+						)}\nrun again with FUZZ_SEED=${seed} FUZZ_SHRINK=true to shrink`
+					)
+				}
+
+				const minimal = await shrink(
+					steps,
+					async (candidate) => typeof (await run(candidate)) !== 'undefined'
+				)
+				expect.fail(
+					`seed ${seed}: ${failure}\nminimal steps: ${JSON.stringify(
+						minimal
+					)}\nminimal failure: ${String(await run(minimal))}`
+				)
+			})
+		})
+	})
+})
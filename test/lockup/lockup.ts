@@ -1,3 +1,4 @@
+import { createFixture } from '../test-lib/fixture'
 import { DevProtocolInstance } from '../test-lib/instance'
 import {
 	PropertyInstance,
@@ -16,7 +17,7 @@ import { waitForEvent, getEventValue } from '../test-lib/utils/event'
 import { validateErrorMessage } from '../test-lib/utils/error'
 
 contract('LockupTest', ([deployer, user1, user2, user3]) => {
-	const init = async (
+	const deploy = async (
 		initialUpdate = true
 	): Promise<
 		[DevProtocolInstance, PropertyInstance, PolicyTestBaseInstance]
@@ -66,6 +67,8 @@ contract('LockupTest', ([deployer, user1, user2, user3]) => {
 		return [dev, property, policy]
 	}
 
+	const init = createFixture('LockupTest', deploy)
+
 	const err = (error: Error): Error => error
 
 	describe('Lockup; lockup', () => {
@@ -0,0 +1,67 @@
+import { DevProtocolInstance } from '../test-lib/instance'
+import {
+	createMarketKitInstance,
+	parseSchema,
+	simulateMarket,
+} from '../test-lib/market-kit'
+
+contract('MarketKitTest', ([deployer, owner, author, voter]) => {
+	describe('parseSchema', () => {
+		it('Returns the keys of the JSON array', () => {
+			expect(parseSchema('["a", "b"]')).to.be.deep.equal({
+				raw: '["a", "b"]',
+				keys: ['a', 'b'],
+			})
+		})
+		it('Reports the schema that is not JSON', () => {
+			expect(parseSchema('a, b').error).to.be.a('string')
+		})
+		it('Reports the schema that has not only strings', () => {
+			expect(parseSchema('["a", 1]').error).to.be.equal(
+				'the schema is not an array of strings'
+			)
+		})
+		it('Reports the schema with more keys than createAndAuthenticate passes', () => {
+			expect(parseSchema('["a", "b", "c", "d"]').error).to.be.equal(
+				'the schema has more than 3 keys'
+			)
+		})
+	})
+	describe('simulateMarket', () => {
+		let dev: DevProtocolInstance
+		beforeEach(async () => {
+			dev = await createMarketKitInstance(deployer)
+		})
+		it('Runs the lifecycle of the behavior', async () => {
+			const report = await simulateMarket(dev, {
+				behavior: 'MarketTest3',
+				owner,
+				author,
+				voter,
+				args: ['id-key', '', ''],
+				setup: async (behavior, market) => {
+					// eslint-disable-next-line @typescript-eslint/await-thenable
+					const instance = await artifacts.require('MarketTest3').at(behavior)
+					await instance.setAssociatedMarket(market, { from: owner })
+				},
+			})
+			expect(report.enabled).to.be.equal(true)
+			expect(report.votes.opposite).to.be.equal('0')
+			expect(report.schema).to.be.deep.equal({ raw: '[]', keys: [] })
+			expect(report.metrics.length).to.be.equal(1)
+			expect(report.id).to.be.equal('id-key')
+			expect(report.fee?.charged).to.be.equal(report.fee?.expected)
+			expect(report.deauthenticated).to.be.equal(true)
+		})
+		it('Throws when the behavior rejects the authentication', async () => {
+			const report = await simulateMarket(dev, {
+				behavior: 'MarketTest3',
+				owner,
+				author,
+				voter,
+				args: ['id-key', '', ''],
+			}).catch((err: Error) => err)
+			expect(report).to.be.an.instanceof(Error)
+		})
+	})
+})
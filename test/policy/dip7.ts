@@ -3,6 +3,7 @@ import { DevProtocolInstance } from '../test-lib/instance'
 import BigNumber from 'bignumber.js'
 import { toBigNumber } from '../test-lib/utils/common'
 import { batchRandom } from './utils'
+import { dip7 as dip7Formula } from '../../scripts/lib/policy-formula'
 
 contract('DIP7', ([deployer]) => {
 	let dip7: DIP7Instance
@@ -19,24 +20,8 @@ contract('DIP7', ([deployer]) => {
 	})
 
 	describe('DIP7; rewards', () => {
-		const rewards = (stake: BigNumber, _asset: BigNumber): BigNumber => {
-			// Rewards = Max*(1-StakingRate)^((12-(StakingRate*10))/2+1)
-			const totalSupply = new BigNumber(1e18).times(10000000)
-			const stakingRate = new BigNumber(stake).div(totalSupply)
-			const asset = _asset.times(new BigNumber(1).minus(stakingRate))
-			const max = new BigNumber('120000000000000').times(asset)
-			const _d = new BigNumber(1).minus(stakingRate)
-			const _p = new BigNumber(12).minus(stakingRate.times(10)).div(2).plus(1)
-			const p = ~~_p.toNumber()
-			const rp = p + 1
-			const f = _p.minus(p)
-			const d1 = _d.pow(p)
-			const d2 = _d.pow(rp)
-			const g = d1.minus(d2).times(f)
-			const d = d1.minus(g)
-			const expected = new BigNumber(max).times(d)
-			return expected.integerValue(BigNumber.ROUND_DOWN)
-		}
+		const rewards = (stake: BigNumber, asset: BigNumber): BigNumber =>
+			dip7Formula.rewards(stake, asset, new BigNumber(1e18).times(10000000))
 
 		it('Returns the total number of mint per block when the total number of lockups and the total number of assets is passed', async () => {
 			const stake = new BigNumber(1e18).times(220000)
@@ -0,0 +1,61 @@
+import Web3 from 'web3'
+import { DevProtocolInstance } from '../test-lib/instance'
+import { DevCommonInstance } from '../../scripts/lib/instance/common'
+import { Allocator } from '../../scripts/lib/instance/allocator'
+
+contract('DryRunTest', ([deployer]) => {
+	const init = async (): Promise<DevCommonInstance> => {
+		const dev = new DevProtocolInstance(deployer)
+		await dev.generateAddressConfig()
+		await dev.generateDev()
+		const common = new DevCommonInstance(
+			artifacts,
+			dev.addressConfig.address,
+			async () => 6721975,
+			async () => 0,
+			true
+		)
+		await common.prepare()
+		return common
+	}
+
+	describe('DevCommonInstance', () => {
+		it('Records the transactions without sending them.', async () => {
+			const common = await init()
+			const nonce = await (web3 as Web3).eth.getTransactionCount(deployer)
+			const allocator = new Allocator(common)
+			await allocator.set(await allocator.create())
+			expect(
+				common.transactions.map(({ target, address, method }) => [
+					target,
+					address,
+					method,
+				])
+			).to.be.deep.equal([
+				['Allocator', '<new Allocator #1>', 'new'],
+				['AddressConfig', common.addressConfig.address, 'setAllocator'],
+			])
+			expect(
+				await (web3 as Web3).eth.getTransactionCount(deployer)
+			).to.be.equal(nonce)
+		})
+		it('Estimates the gas of the transactions to the deployed contracts.', async () => {
+			const common = await init()
+			const estimated = await common.addressConfig.setAllocator.estimateGas(
+				deployer
+			)
+			expect(estimated).to.be.greaterThan(0)
+			expect(common.transactions).to.be.deep.equal([])
+		})
+		it('Fails to estimate the gas of the transactions to the new contracts.', async () => {
+			const common = await init()
+			const allocator = await new Allocator(common).create()
+			const result = await allocator.beforeBalanceChange
+				.estimateGas(deployer, deployer, deployer)
+				.catch((err: Error) => err)
+			expect((result as Error).message).to.be.equal(
+				'Allocator.beforeBalanceChange cannot be called before deployment'
+			)
+		})
+	})
+})
@@ -0,0 +1,147 @@
+import Web3 from 'web3'
+import BigNumber from 'bignumber.js'
+import { JsonRpcResponse } from 'web3-core-helpers'
+import { DevProtocolInstance } from '../test-lib/instance'
+import { DevCommonInstance } from '../../scripts/lib/instance/common'
+import { Allocator } from '../../scripts/lib/instance/allocator'
+import {
+	GasStrategy,
+	eip1559Fees,
+	estimateGasStrategy,
+	legacyFees,
+	staticGasStrategy,
+	strategyFetchers,
+	withPriceCeiling,
+} from '../../scripts/lib/gas-strategy'
+
+contract('GasStrategyTest', ([deployer]) => {
+	const gasPrice = Web3.utils.toWei('3', 'gwei')
+	const init = async (strategy: GasStrategy): Promise<DevCommonInstance> => {
+		const dev = new DevProtocolInstance(deployer)
+		await dev.generateAddressConfig()
+		await dev.generateDev()
+		const common = new DevCommonInstance(
+			artifacts,
+			dev.addressConfig.address,
+			...strategyFetchers(strategy)
+		)
+		common.useGasStrategy(strategy)
+		await common.prepare()
+		return common
+	}
+
+	// A node answering every request with the latest block of the base fee
+	const nodeOf = (baseFeePerGas?: string): Web3 =>
+		new Web3({
+			sendAsync: (payload, callback) => {
+				const response: JsonRpcResponse = {
+					jsonrpc: '2.0',
+					id: Number(payload.id),
+					result: { number: '0x1', baseFeePerGas },
+				}
+				callback(null, response)
+			},
+		})
+
+	describe('withPriceCeiling', () => {
+		it('Sends the transaction with the gas price of the strategy.', async () => {
+			const common = await init(
+				withPriceCeiling(
+					staticGasStrategy(6721975, gasPrice),
+					Web3.utils.toWei('5', 'gwei')
+				)
+			)
+			const allocator = await new Allocator(common).create()
+			const tx = await (web3 as Web3).eth.getTransaction(
+				allocator.transactionHash
+			)
+			expect(tx.gasPrice).to.be.equal(gasPrice)
+		})
+		it('Does not send the transaction when the gas price exceeds the ceiling.', async () => {
+			const common = await init(
+				withPriceCeiling(
+					staticGasStrategy(6721975, gasPrice),
+					Web3.utils.toWei('2', 'gwei')
+				)
+			)
+			const nonce = await (web3 as Web3).eth.getTransactionCount(deployer)
+			const result = await new Allocator(common)
+				.create()
+				.catch((err: Error) => err)
+			expect((result as Error).message).to.be.equal(
+				`gas price ${gasPrice} exceeds the ceiling ${Web3.utils.toWei(
+					'2',
+					'gwei'
+				)}`
+			)
+			expect(
+				await (web3 as Web3).eth.getTransactionCount(deployer)
+			).to.be.equal(nonce)
+		})
+		it('Compares the max fee per gas of EIP-1559 with the ceiling.', async () => {
+			const strategy = withPriceCeiling(
+				estimateGasStrategy(eip1559Fees(nodeOf('0x3b9aca00'))),
+				Web3.utils.toWei('3', 'gwei')
+			)
+			const result = await strategy.gasInfo().catch((err: Error) => err)
+			expect((result as Error).message).to.be.equal(
+				`gas price ${Web3.utils.toWei(
+					'4',
+					'gwei'
+				)} exceeds the ceiling ${Web3.utils.toWei('3', 'gwei')}`
+			)
+		})
+	})
+
+	describe('estimateGasStrategy', () => {
+		it('Sends the transaction with the estimated gas and the margin.', async () => {
+			const common = await init(
+				estimateGasStrategy(
+					legacyFees(async () => gasPrice),
+					1.5
+				)
+			)
+			const allocator = await new Allocator(common).create()
+			const estimated = await common.addressConfig.setAllocator.estimateGas(
+				allocator.address
+			)
+			await new Allocator(common).set(allocator)
+			const block = await (web3 as Web3).eth.getBlock('latest', true)
+			const [tx] = block.transactions
+			expect(tx.gas).to.be.equal(
+				new BigNumber(estimated)
+					.times(1.5)
+					.integerValue(BigNumber.ROUND_CEIL)
+					.toNumber()
+			)
+			expect(tx.gasPrice).to.be.equal(gasPrice)
+		})
+		it('Leaves the gas to the node without the estimator.', async () => {
+			const info = await estimateGasStrategy(
+				legacyFees(async () => gasPrice)
+			).gasInfo()
+			expect(info).to.be.deep.equal({ gasPrice })
+		})
+	})
+
+	describe('eip1559Fees', () => {
+		it('Returns twice the base fee of the latest block and the priority fee.', async () => {
+			const fees = await eip1559Fees(
+				nodeOf('0x3b9aca00'),
+				Web3.utils.toWei('1', 'gwei')
+			)()
+			expect(fees).to.be.deep.equal({
+				maxFeePerGas: Web3.utils.toWei('3', 'gwei'),
+				maxPriorityFeePerGas: Web3.utils.toWei('1', 'gwei'),
+			})
+		})
+		it('Fails when the latest block has no base fee.', async () => {
+			const result = await eip1559Fees(web3 as Web3)().catch(
+				(err: Error) => err
+			)
+			expect((result as Error).message).to.be.equal(
+				'the network does not support EIP-1559'
+			)
+		})
+	})
+})
@@ -0,0 +1,114 @@
+import BigNumber from 'bignumber.js'
+import { DevProtocolInstance } from '../test-lib/instance'
+import { mine, toBigNumber } from '../test-lib/utils/common'
+import { getExactWithdrawHolderAmount } from '../test-lib/utils/mint-amount'
+import {
+	calculateWithdrawableAmount,
+	createHolderRewardLedger,
+} from '../../scripts/lib/holder-reward'
+
+contract('HolderRewardTest', ([deployer, author, user, staker]) => {
+	// The cumulative holders reward of Lockup is multiplied by 1e18
+	const reward = (value: number): BigNumber =>
+		new BigNumber(value).times(1e18).times(1e18)
+	const holder = { balance: 200, totalSupply: 1000 }
+
+	describe('calculateWithdrawableAmount', () => {
+		it('Returns the reward of the share of the balance', () => {
+			const { amount } = calculateWithdrawableAmount(
+				{ reward: reward(100), cap: 0 },
+				holder
+			)
+			expect(amount.toFixed()).to.be.equal(
+				new BigNumber(20).times(1e18).toFixed()
+			)
+		})
+		it('Subtracts the reward at the last withdrawal', () => {
+			const { amount } = calculateWithdrawableAmount(
+				{ reward: reward(100), cap: 0 },
+				{ ...holder, lastReward: reward(50) }
+			)
+			expect(amount.toFixed()).to.be.equal(
+				new BigNumber(10).times(1e18).toFixed()
+			)
+		})
+		it('Limits the reward by the cap', () => {
+			const { amount, allReward } = calculateWithdrawableAmount(
+				{ reward: reward(100), cap: new BigNumber(5).times(1e37) },
+				holder
+			)
+			expect(amount.toFixed()).to.be.equal(
+				new BigNumber(10).times(1e18).toFixed()
+			)
+			expect(allReward.toFixed()).to.be.equal(
+				new BigNumber(20).times(1e18).toFixed()
+			)
+		})
+		it('Adds the pending reward and the reward before DIP4', () => {
+			const { amount } = calculateWithdrawableAmount(
+				{ reward: reward(100), cap: 0 },
+				{ ...holder, pending: 3, lastWithdrawalPrice: 1e18 },
+				{ cumulativePrice: 2e18 }
+			)
+			expect(amount.toFixed()).to.be.equal(
+				new BigNumber(20).times(1e18).plus(3).plus(200).toFixed()
+			)
+		})
+		it('Returns 0 when the Property has no assets', () => {
+			const { amount } = calculateWithdrawableAmount(
+				{ reward: reward(100), cap: 0 },
+				{ ...holder, pending: 3 },
+				{ hasAssets: false }
+			)
+			expect(amount.toFixed()).to.be.equal('0')
+		})
+	})
+	describe('createHolderRewardLedger', () => {
+		it('Moves the reward before a transfer to the pending reward', () => {
+			const ledger = createHolderRewardLedger({
+				author,
+				totalSupply: 1000,
+			})
+			ledger.transfer(author, user, 200, { reward: reward(100), cap: 0 })
+			const lockup = { reward: reward(200), cap: 0 }
+			expect(
+				ledger.calculateRewardAmount(user, lockup).amount.toFixed()
+			).to.be.equal(new BigNumber(20).times(1e18).toFixed())
+			expect(ledger.withdraw(author, lockup).toFixed()).to.be.equal(
+				new BigNumber(180).times(1e18).toFixed()
+			)
+			expect(() => ledger.withdraw(author, lockup)).to.throw(
+				'withdraw value is 0'
+			)
+		})
+	})
+	describe('getExactWithdrawHolderAmount', () => {
+		it('Returns the same amount as Withdraw.calculateWithdrawableAmount', async () => {
+			const {
+				dev,
+				properties: [{ property }],
+			} = await new DevProtocolInstance(deployer).build({
+				policy: 'PolicyTestBase',
+				mint: { [staker]: new BigNumber(1e18).times(10000) },
+				properties: [{ author, metrics: 1 }],
+			})
+			await dev.dev.deposit(property.address, new BigNumber(1e18).times(100), {
+				from: staker,
+			})
+			const totalSupply = await property.totalSupply().then(toBigNumber)
+			await property.transfer(user, totalSupply.div(5), { from: author })
+			await mine(3)
+			for (const account of [author, user]) {
+				// eslint-disable-next-line no-await-in-loop
+				const [actual, expected] = await Promise.all([
+					dev.withdraw
+						.calculateWithdrawableAmount(property.address, account)
+						.then(toBigNumber),
+					getExactWithdrawHolderAmount(dev, property, account),
+				])
+				expect(expected.toFixed()).to.be.equal(actual.toFixed())
+				expect(actual.isGreaterThan(0)).to.be.equal(true)
+			}
+		})
+	})
+})
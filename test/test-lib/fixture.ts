@@ -0,0 +1,86 @@
+import { DevProtocolInstance } from './instance'
+import { rpc } from './utils/chain'
+
+export type Fixture<A extends unknown[], T> = (...args: A) => Promise<T>
+
+type Snapshot<T> = {
+	readonly id: string
+	readonly value: T
+	readonly handles: ReadonlyArray<
+		[DevProtocolInstance, Record<string, unknown>]
+	>
+}
+
+// The snapshots taken by the fixtures and not removed by a revert yet
+const liveSnapshots = new Set<string>()
+
+export const takeSnapshot = async (): Promise<string> => {
+	const id = await rpc<string>('evm_snapshot')
+	liveSnapshots.add(id)
+	return id
+}
+
+/**
+ * Ganache removes the snapshot and the ones taken after it when reverting.
+ */
+export const revertToSnapshot = async (id: string): Promise<boolean> => {
+	if (!liveSnapshots.has(id)) {
+		return false
+	}
+
+	const reverted = await rpc<boolean>('evm_revert', [id])
+	for (const x of liveSnapshots) {
+		if (Number(x) >= Number(id)) {
+			liveSnapshots.delete(x)
+		}
+	}
+
+	return reverted
+}
+
+const captureHandles = (value: unknown): Snapshot<unknown>['handles'] =>
+	(Array.isArray(value) ? value : [value])
+		.filter((x): x is DevProtocolInstance => x instanceof DevProtocolInstance)
+		.map((x) => [x, { ...x }])
+
+const restoreHandles = (handles: Snapshot<unknown>['handles']): void => {
+	for (const [instance, fields] of handles) {
+		for (const key of Object.keys(instance)) {
+			if (!(key in fields)) {
+				Reflect.deleteProperty(instance, key)
+			}
+		}
+
+		Object.assign(instance, fields)
+	}
+}
+
+/**
+ * Deploys the configuration on the first call for each arguments, and reverts the chain
+ * to the state right after the deployment on the next calls.
+ * The contracts generated by a test are dropped from the returned DevProtocolInstance, too.
+ * Create the fixtures in the `contract` block since truffle reverts the chain at its beginning.
+ */
+export const createFixture = <A extends unknown[], T>(
+	name: string,
+	deploy: (...args: A) => Promise<T>
+): Fixture<A, T> => {
+	const snapshots = new Map<string, Snapshot<T>>()
+	return async (...args: A): Promise<T> => {
+		const key = `${name}(${JSON.stringify(args)})`
+		const snapshot = snapshots.get(key)
+		if (snapshot && (await revertToSnapshot(snapshot.id))) {
+			restoreHandles(snapshot.handles)
+			snapshots.set(key, { ...snapshot, id: await takeSnapshot() })
+			return snapshot.value
+		}
+
+		const value = await deploy(...args)
+		snapshots.set(key, {
+			id: await takeSnapshot(),
+			value,
+			handles: captureHandles(value),
+		})
+		return value
+	}
+}
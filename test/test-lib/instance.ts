@@ -21,11 +21,198 @@ import {
 	IPolicyContract,
 	LockupTestInstance,
 	DevMinterInstance,
+	PropertyInstance,
 } from '../../types/truffle-contracts'
+import BigNumber from 'bignumber.js'
 import { getBlock } from './utils/common'
+import { getPropertyAddress } from './utils/log'
 
 const contract = artifacts.require
 
+export type DevProtocolModule =
+	| 'Allocator'
+	| 'Lockup'
+	| 'LockupTest'
+	| 'Withdraw'
+	| 'WithdrawTest'
+	| 'PropertyFactory'
+	| 'PropertyGroup'
+	| 'VoteCounter'
+	| 'PolicyFactory'
+	| 'PolicyGroup'
+	| 'MarketFactory'
+	| 'MarketGroup'
+	| 'MetricsFactory'
+	| 'MetricsGroup'
+export type DevProtocolPropertyOptions = {
+	readonly author: string
+	readonly name?: string
+	readonly symbol?: string
+	readonly metrics?: number
+}
+export type DevProtocolBuildOptions = {
+	readonly modules?: readonly DevProtocolModule[]
+	readonly policy?: string
+	readonly mint?: Readonly<Record<string, string | number | BigNumber>>
+	readonly properties?: readonly DevProtocolPropertyOptions[]
+}
+export type DevProtocolStack = {
+	readonly dev: DevProtocolInstance
+	readonly policy?: IPolicyInstance
+	readonly properties: ReadonlyArray<{
+		readonly property: PropertyInstance
+		readonly author: string
+		readonly metrics: readonly MetricsInstance[]
+	}>
+}
+
+export const defaultModules: readonly DevProtocolModule[] = [
+	'Allocator',
+	'MarketFactory',
+	'MarketGroup',
+	'MetricsFactory',
+	'MetricsGroup',
+	'Lockup',
+	'Withdraw',
+	'PropertyFactory',
+	'PropertyGroup',
+	'VoteCounter',
+	'PolicyFactory',
+	'PolicyGroup',
+]
+
+// The modules whose functions the module calls at runtime.
+// The access checks of the groups only read the addresses of the factories, so they are not counted.
+const moduleDependencies: Readonly<
+	Record<DevProtocolModule, readonly DevProtocolModule[]>
+> = {
+	Allocator: ['Lockup', 'MetricsGroup', 'PropertyGroup', 'Withdraw'],
+	Lockup: ['Allocator', 'MetricsGroup'],
+	LockupTest: ['Allocator', 'MetricsGroup'],
+	Withdraw: ['Allocator', 'Lockup', 'MetricsGroup', 'PropertyGroup'],
+	WithdrawTest: ['Allocator', 'Lockup', 'MetricsGroup', 'PropertyGroup'],
+	PropertyFactory: ['PropertyGroup'],
+	PropertyGroup: [],
+	VoteCounter: ['Lockup', 'MarketGroup', 'PolicyFactory', 'PolicyGroup'],
+	PolicyFactory: ['PolicyGroup'],
+	PolicyGroup: [],
+	MarketFactory: ['MarketGroup'],
+	MarketGroup: [],
+	MetricsFactory: ['MarketGroup', 'MetricsGroup'],
+	MetricsGroup: [],
+}
+
+// Both of the modules are set to the same address of AddressConfig
+const conflictingModules: ReadonlyArray<
+	[DevProtocolModule, DevProtocolModule]
+> = [
+	['Lockup', 'LockupTest'],
+	['Withdraw', 'WithdrawTest'],
+]
+
+const policyDependencies: readonly DevProtocolModule[] = [
+	'Allocator',
+	'MetricsGroup',
+	'Lockup',
+	'PolicyFactory',
+	'PolicyGroup',
+]
+
+const propertyDependencies: readonly DevProtocolModule[] = [
+	'PropertyFactory',
+	'PropertyGroup',
+]
+
+// A dependency is also met by the module that takes the same address, such as LockupTest for Lockup
+const isProvided = (
+	modules: readonly DevProtocolModule[],
+	module: DevProtocolModule
+): boolean =>
+	modules.includes(module) ||
+	conflictingModules.some(
+		([a, b]) =>
+			(a === module && modules.includes(b)) ||
+			(b === module && modules.includes(a))
+	)
+
+const requiredModules = ({
+	modules = defaultModules,
+	policy,
+	properties = [],
+}: DevProtocolBuildOptions): readonly DevProtocolModule[] => [
+	...modules.flatMap((module) => moduleDependencies[module]),
+	...(policy ? policyDependencies : []),
+	...(properties.length > 0 ? propertyDependencies : []),
+	...(properties.some(({ metrics = 0 }) => metrics > 0)
+		? (['MetricsGroup'] as const)
+		: []),
+]
+
+/**
+ * Returns the modules of the options with the missing dependencies added,
+ * including the dependencies of the added ones.
+ */
+export const resolveModules = (
+	options: DevProtocolBuildOptions
+): readonly DevProtocolModule[] => {
+	const resolved = [...new Set(options.modules ?? defaultModules)]
+	const queue = [...requiredModules(options)]
+	while (queue.length > 0) {
+		const module = queue.shift()!
+		if (!isProvided(resolved, module)) {
+			resolved.push(module)
+			queue.push(...moduleDependencies[module])
+		}
+	}
+
+	return resolved
+}
+
+/**
+ * Throws when the modules can not work together with the options.
+ */
+export const validateBuildOptions = ({
+	modules = defaultModules,
+	policy,
+	properties = [],
+}: DevProtocolBuildOptions): void => {
+	const requires = (
+		dependencies: readonly DevProtocolModule[],
+		target: string
+	): void => {
+		const missing = dependencies.filter((x) => !isProvided(modules, x))
+		if (missing.length > 0) {
+			throw new Error(`${target} requires the modules: ${missing.join(', ')}`)
+		}
+	}
+
+	for (const module of modules) {
+		requires(moduleDependencies[module], module)
+	}
+
+	for (const [a, b] of conflictingModules) {
+		if (modules.includes(a) && modules.includes(b)) {
+			throw new Error(`${a} and ${b} can not be deployed together`)
+		}
+	}
+
+	if (policy) {
+		requires(policyDependencies, `the policy ${policy}`)
+	}
+
+	if (properties.length > 0) {
+		if (!policy) {
+			throw new Error('the properties require a policy')
+		}
+
+		requires(propertyDependencies, 'the properties')
+	}
+
+	if (properties.some(({ metrics = 0 }) => metrics > 0)) {
+		requires(['MetricsGroup'], 'the metrics')
+	}
+}
+
 export class DevProtocolInstance {
 	private readonly _deployer: string
 
@@ -137,6 +324,49 @@ export class DevProtocolInstance {
 		return this._withdraw
 	}
 
+	/**
+	 * Deploys AddressConfig, Dev and DevMinter, and then the modules, the policy and the properties.
+	 * The modules are deployed one by one in the listed order, and then the ones that the options require
+	 * even if they are not listed.
+	 * The metrics are added to MetricsGroup with the deployer as the market.
+	 */
+	public async build(
+		options: DevProtocolBuildOptions = {}
+	): Promise<DevProtocolStack> {
+		const modules = resolveModules(options)
+		validateBuildOptions({ ...options, modules })
+		const { policy: policyName, mint = {}, properties = [] } = options
+		await this.generateAddressConfig()
+		await this.generateDev()
+		await this.generateDevMinter()
+		for (const module of modules) {
+			// eslint-disable-next-line no-await-in-loop
+			await this.generateModule(module)
+		}
+
+		for (const [account, amount] of Object.entries(mint)) {
+			// eslint-disable-next-line no-await-in-loop
+			await this._dev.mint(account, amount, this.fromDeployer)
+		}
+
+		let policy: IPolicyInstance | undefined
+		if (policyName) {
+			// eslint-disable-next-line @typescript-eslint/await-thenable
+			policy = await contract('IPolicy').at(
+				await this.generatePolicy(policyName)
+			)
+		}
+
+		const created = []
+		for (const { author, name, symbol, metrics = 0 } of properties) {
+			// eslint-disable-next-line no-await-in-loop
+			const property = await this.createProperty(author, name, symbol, metrics)
+			created.push({ author, ...property })
+		}
+
+		return { dev: this, policy, properties: created }
+	}
+
 	public async generateAddressConfig(): Promise<void> {
 		const instance = contract('AddressConfig')
 		this._addressConfig = await instance.new(this.fromDeployer)
@@ -338,6 +568,27 @@ export class DevProtocolInstance {
 		return policy.address
 	}
 
+	public async generateModule(module: DevProtocolModule): Promise<void> {
+		const generators: Readonly<Record<DevProtocolModule, () => Promise<void>>> =
+			{
+				Allocator: async () => this.generateAllocator(),
+				Lockup: async () => this.generateLockup(),
+				LockupTest: async () => this.generateLockupTest(),
+				Withdraw: async () => this.generateWithdraw(),
+				WithdrawTest: async () => this.generateWithdrawTest(),
+				PropertyFactory: async () => this.generatePropertyFactory(),
+				PropertyGroup: async () => this.generatePropertyGroup(),
+				VoteCounter: async () => this.generateVoteCounter(),
+				PolicyFactory: async () => this.generatePolicyFactory(),
+				PolicyGroup: async () => this.generatePolicyGroup(),
+				MarketFactory: async () => this.generateMarketFactory(),
+				MarketGroup: async () => this.generateMarketGroup(),
+				MetricsFactory: async () => this.generateMetricsFactory(),
+				MetricsGroup: async () => this.generateMetricsGroup(),
+			}
+		await generators[module]()
+	}
+
 	public async getPolicy(
 		contractName: string,
 		user: string
@@ -363,6 +614,44 @@ export class DevProtocolInstance {
 		return contract('Metrics').new(market, property)
 	}
 
+	public async createProperty(
+		author: string,
+		name = 'test',
+		symbol = 'TEST',
+		metricsCount = 0
+	): Promise<{ property: PropertyInstance; metrics: MetricsInstance[] }> {
+		// eslint-disable-next-line @typescript-eslint/await-thenable
+		const property = await contract('Property').at(
+			getPropertyAddress(
+				await this._propertyFactory.create(name, symbol, author, {
+					from: author,
+				})
+			)
+		)
+		if (metricsCount === 0) {
+			return { property, metrics: [] }
+		}
+
+		const metrics = []
+		await this._addressConfig.setMetricsFactory(this._deployer)
+		for (let i = 0; i < metricsCount; i++) {
+			// eslint-disable-next-line no-await-in-loop
+			const instance = await this.createMetrics(
+				this._deployer,
+				property.address
+			)
+			// eslint-disable-next-line no-await-in-loop
+			await this._metricsGroup.addGroup(instance.address)
+			metrics.push(instance)
+		}
+
+		if (typeof this._metricsFactory !== 'undefined') {
+			await this._addressConfig.setMetricsFactory(this._metricsFactory.address)
+		}
+
+		return { property, metrics }
+	}
+
 	public async updateCap(
 		value = '115792089237316000000000000000000000'
 	): Promise<void> {
@@ -0,0 +1,203 @@
+import BigNumber from 'bignumber.js'
+import { DevProtocolInstance } from './instance'
+import { getMarketAddress, getPropertyAddress } from './utils/log'
+import { toBigNumber } from './utils/common'
+
+export type SchemaReport = {
+	readonly raw: string
+	readonly keys?: readonly string[]
+	readonly error?: string
+}
+export type MarketKitOptions = {
+	readonly behavior: string
+	readonly owner: string
+	readonly author: string
+	readonly voter: string
+	readonly args: readonly [string, string, string]
+	readonly constructorArgs?: readonly unknown[]
+	readonly setup?: (behavior: string, market: string) => Promise<void>
+}
+export type MarketKitReport = {
+	readonly behavior: string
+	readonly market: string
+	readonly votes: { readonly agree: string; readonly opposite: string }
+	readonly enabled: boolean
+	readonly schema: SchemaReport
+	readonly property?: string
+	readonly metrics: readonly string[]
+	readonly id?: string
+	readonly fee?: { readonly expected: string; readonly charged: string }
+	readonly deauthenticated: boolean
+}
+
+const contract = artifacts.require
+
+/**
+ * The schema should be a JSON array of the argument names,
+ * and `createAndAuthenticate` passes only the first three of them.
+ */
+export const parseSchema = (raw: string): SchemaReport => {
+	const parsed = ((): unknown => {
+		try {
+			return JSON.parse(raw) as unknown
+		} catch (err: unknown) {
+			return err
+		}
+	})()
+	if (parsed instanceof Error) {
+		return { raw, error: parsed.message }
+	}
+
+	if (!Array.isArray(parsed) || parsed.some((x) => typeof x !== 'string')) {
+		return { raw, error: 'the schema is not an array of strings' }
+	}
+
+	return parsed.length > 3
+		? { raw, keys: parsed, error: 'the schema has more than 3 keys' }
+		: { raw, keys: parsed }
+}
+
+/**
+ * Deploys the whole protocol with the Policy, same as the tests do.
+ */
+export async function createMarketKitInstance(
+	deployer: string,
+	policy = 'PolicyTestBase'
+): Promise<DevProtocolInstance> {
+	const { dev } = await new DevProtocolInstance(deployer).build({ policy })
+	return dev
+}
+
+/**
+ * Runs the behavior through the whole lifecycle of a Market:
+ * `MarketFactory.create`, the vote to enable it, `PropertyFactory.createAndAuthenticate`
+ * and `Market.deauthenticate`. The Metrics are the ones created in the authentication transaction,
+ * so an asynchronous behavior reports none. The expected fee is `Policy.authenticationFee`
+ * of the total issued Metrics including the new one and the staked value of the Property,
+ * and 0 when no Metrics is created.
+ */
+export async function simulateMarket(
+	dev: DevProtocolInstance,
+	{
+		behavior: name,
+		owner,
+		author,
+		voter,
+		args,
+		constructorArgs = [dev.addressConfig.address],
+		setup,
+	}: MarketKitOptions
+): Promise<MarketKitReport> {
+	// The first Market is enabled without a vote, so another one takes the place
+	if ((await dev.marketGroup.getCount()).toNumber() === 0) {
+		const first = await dev.getMarket('MarketTest1', owner)
+		await dev.marketFactory.create(first.address)
+	}
+
+	// The voter stakes to an authenticated Property to get the voting rights,
+	// before the Market is created so that the vote is in the voting period
+	const voterProperty = getPropertyAddress(
+		await dev.propertyFactory.create('voter', 'VOTER', voter)
+	)
+	await dev.metricsGroup.__setMetricsCountPerProperty(voterProperty, 1)
+	await dev.dev.mint(voter, new BigNumber(1e18).times(10000))
+	await dev.dev.deposit(voterProperty, new BigNumber(1e18).times(10000), {
+		from: voter,
+	})
+	const behavior = await contract(name).new(...constructorArgs, {
+		from: owner,
+	})
+	const market = getMarketAddress(
+		await dev.marketFactory.create(behavior.address)
+	)
+	await setup?.(behavior.address, market)
+	// eslint-disable-next-line @typescript-eslint/await-thenable
+	const marketInstance = await contract('Market').at(market)
+	const schema = parseSchema(await marketInstance.schema())
+
+	await dev.voteCounter.voteMarket(market, voterProperty, true, {
+		from: voter,
+	})
+	const [agree, opposite, enabled] = await Promise.all([
+		dev.voteCounter.getStorageAgreeCount(market),
+		dev.voteCounter.getStorageOppositeCount(market),
+		marketInstance.enabled(),
+	])
+	const votes = { agree: agree.toString(), opposite: opposite.toString() }
+	if (!enabled) {
+		return {
+			behavior: behavior.address,
+			market,
+			votes,
+			enabled,
+			schema,
+			metrics: [],
+			deauthenticated: false,
+		}
+	}
+
+	await dev.dev.mint(author, new BigNumber(1e18).times(10000))
+	// eslint-disable-next-line @typescript-eslint/await-thenable
+	const policy = await contract('IPolicy').at(await dev.addressConfig.policy())
+	const balance = await dev.dev.balanceOf(author).then(toBigNumber)
+	const res = await dev.propertyFactory.createAndAuthenticate(
+		'market kit',
+		'KIT',
+		market,
+		...args,
+		{ from: author }
+	)
+	const property = getPropertyAddress(res)
+	const { blockNumber } = res.receipt
+	const created: Array<{ returnValues: Record<string, string> }> =
+		await dev.metricsFactory.contract.getPastEvents('Create', {
+			fromBlock: blockNumber,
+			toBlock: blockNumber,
+		})
+	const metrics = created.map(({ returnValues }) => returnValues._metrics)
+	// Same as `Market.getAuthenticationFee`, which runs after the Metrics is added to MetricsGroup
+	const expected =
+		metrics.length > 0
+			? await Promise.all([
+					dev.metricsGroup.totalIssuedMetrics(),
+					dev.lockup.getPropertyValue(property),
+			  ]).then(async ([assets, value]) =>
+					policy.authenticationFee(assets, value)
+			  )
+			: 0
+	const charged = balance.minus(
+		await dev.dev.balanceOf(author).then(toBigNumber)
+	)
+	// eslint-disable-next-line @typescript-eslint/await-thenable
+	const behaviorInstance = await contract('IMarketBehavior').at(
+		behavior.address
+	)
+	const id =
+		metrics.length > 0 ? await behaviorInstance.getId(metrics[0]) : undefined
+
+	const results: boolean[] = []
+	for (const x of metrics) {
+		results.push(
+			// eslint-disable-next-line no-await-in-loop
+			await marketInstance
+				.deauthenticate(x, { from: author })
+				.then(() => true)
+				.catch(() => false)
+		)
+	}
+
+	const deauthenticated = results.length > 0 && results.every((x) => x)
+
+	return {
+		behavior: behavior.address,
+		market,
+		votes,
+		enabled,
+		schema,
+		property,
+		metrics,
+		id,
+		fee: { expected: expected.toString(), charged: charged.toFixed() },
+		deauthenticated,
+	}
+}
@@ -0,0 +1,126 @@
+import Web3 from 'web3'
+import {
+	IMarketInstance,
+	PolicyGroupInstance,
+} from '../../../types/truffle-contracts'
+import { storageKey, storageKeys } from '../../../scripts/lib/storage-keys'
+
+type RpcResponse<T> = { result: T; error?: { message: string } }
+
+let rpcId = 0
+const request = (method: string, params: unknown[]) => ({
+	jsonrpc: '2.0',
+	method,
+	params,
+	id: ++rpcId,
+})
+
+export const rpc = async <T>(
+	method: string,
+	params: unknown[] = []
+): Promise<T> =>
+	new Promise((resolve, reject) => {
+		web3.currentProvider.send(
+			request(method, params),
+			(err: Error | null, res: RpcResponse<T>) => {
+				if (err || res.error) {
+					reject(err ?? new Error(res.error?.message))
+					return
+				}
+
+				resolve(res.result)
+			}
+		)
+	})
+
+// Resolves whether the node is Hardhat Network, which mines many blocks by `hardhat_mine`
+let bulkMining: Promise<boolean> | undefined
+
+const supportsBulkMining = async (): Promise<boolean> => {
+	bulkMining =
+		bulkMining ??
+		rpc<string>('web3_clientVersion')
+			.then((version) => version.startsWith('HardhatNetwork'))
+			.catch(() => false)
+	return bulkMining
+}
+
+/**
+ * Mines the blocks by `hardhat_mine` on Hardhat Network, otherwise by `evm_mine` one at a time,
+ * since ganache-core fails to mine the blocks of a JSON-RPC batch concurrently.
+ */
+export const mineBlocks = async (count: number): Promise<void> => {
+	if (count <= 0) {
+		return
+	}
+
+	if (await supportsBulkMining()) {
+		await rpc('hardhat_mine', [`0x${count.toString(16)}`])
+		return
+	}
+
+	for (let i = 0; i < count; i++) {
+		// eslint-disable-next-line no-await-in-loop
+		await rpc('evm_mine')
+	}
+}
+
+export const mineTo = async (block: number): Promise<void> => {
+	const current = await (web3 as Web3).eth.getBlockNumber()
+	if (block < current) {
+		throw new Error(`the block ${block} is before the current ${current}`)
+	}
+
+	await mineBlocks(block - current)
+}
+
+const minePast = async (end: number): Promise<void> => {
+	const current = await (web3 as Web3).eth.getBlockNumber()
+	await mineBlocks(end + 1 - current)
+}
+
+export const getTimestamp = async (): Promise<number> =>
+	(web3 as Web3).eth
+		.getBlock('latest')
+		.then(({ timestamp }) => Number(timestamp))
+
+/**
+ * Shifts the timestamps of the next blocks.
+ */
+export const increaseTime = async (seconds: number): Promise<void> => {
+	await rpc('evm_increaseTime', [seconds])
+}
+
+/**
+ * Mines a block with the timestamp.
+ */
+export const mineAt = async (timestamp: number): Promise<void> => {
+	await rpc('evm_mine', [timestamp])
+}
+
+/**
+ * Mines until the block after `votingEndBlockNumber` of the market.
+ */
+export const advancePastMarketVoting = async (
+	market: IMarketInstance
+): Promise<void> => {
+	const end = await market.votingEndBlockNumber()
+	await minePast(end.toNumber())
+}
+
+/**
+ * Mines until the block after the voting end of the policy, which PolicyGroup holds in its storage.
+ */
+export const advancePastPolicyVoting = async (
+	policyGroup: PolicyGroupInstance,
+	policy: string
+): Promise<void> => {
+	// eslint-disable-next-line @typescript-eslint/await-thenable
+	const storage = await artifacts
+		.require('EternalStorage')
+		.at(await policyGroup.getStorageAddress())
+	const end = await storage.getUint(
+		storageKey(storageKeys.PolicyGroup.votingEndBlockNumber, [policy])
+	)
+	await minePast(end.toNumber())
+}
@@ -1,22 +1,10 @@
 import Web3 from 'web3'
 import BigNumber from 'bignumber.js'
 import { SHARE_OF_TREASURY } from './../const'
+import { mineBlocks } from './chain'
 
 export async function mine(count: number): Promise<void> {
-	for (let i = 0; i < count; i++) {
-		// eslint-disable-next-line no-await-in-loop
-		await new Promise((resolve) => {
-			web3.currentProvider.send(
-				{
-					jsonrpc: '2.0',
-					method: 'evm_mine',
-					params: [],
-					id: 0,
-				},
-				resolve
-			)
-		})
-	}
+	await mineBlocks(count)
 }
 
 export const toBigNumber = (v: string | BigNumber | number): BigNumber =>
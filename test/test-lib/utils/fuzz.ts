@@ -0,0 +1,55 @@
+export type Random = {
+	readonly next: () => number
+	readonly int: (min: number, max: number) => number
+	readonly pick: <T>(values: readonly T[]) => T
+}
+
+// Mulberry32, so that a failing seed reproduces the same sequence
+export const createRandom = (seed: number): Random => {
+	let state = seed >>> 0
+	const next = (): number => {
+		state = (state + 0x6d2b79f5) >>> 0
+		let t = state
+		t = Math.imul(t ^ (t >>> 15), t | 1)
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+
+	const int = (min: number, max: number): number =>
+		min + Math.floor(next() * (max - min + 1))
+	return {
+		next,
+		int,
+		pick: <T>(values: readonly T[]): T => values[int(0, values.length - 1)],
+	}
+}
+
+/**
+ * Removes the steps that are not needed to keep `fails` true, first in chunks then one by one.
+ */
+export const shrink = async <T>(
+	steps: readonly T[],
+	fails: (candidate: readonly T[]) => Promise<boolean>,
+	maxAttempts = 100
+): Promise<readonly T[]> => {
+	let current = steps
+	let attempts = 0
+	for (
+		let size = Math.floor(current.length / 2);
+		size > 0 && attempts < maxAttempts;
+		size = Math.floor(size / 2)
+	) {
+		for (let i = 0; i < current.length && attempts < maxAttempts; ) {
+			const candidate = [...current.slice(0, i), ...current.slice(i + size)]
+			attempts++
+			// eslint-disable-next-line no-await-in-loop
+			if (candidate.length > 0 && (await fails(candidate))) {
+				current = candidate
+			} else {
+				i += size
+			}
+		}
+	}
+
+	return current
+}
@@ -0,0 +1,118 @@
+/* eslint-disable no-useless-call */
+import Web3 from 'web3'
+import BigNumber from 'bignumber.js'
+import { DevProtocolInstance } from '../instance'
+import { toBigNumber, getBlock } from './common'
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+type MintedRewards = {
+	readonly minted: BigNumber
+	readonly allowed: BigNumber
+}
+export type MintInvariant = {
+	readonly calculate: () => Promise<MintedRewards>
+	readonly validate: () => Promise<void>
+}
+
+/**
+ * Validates `getAllValue` and each `getPropertyValue` equal the sums of `getValue`
+ * over every staker found in the `Lockedup` events.
+ */
+export async function validateLockedValue(
+	dev: DevProtocolInstance
+): Promise<void> {
+	const events: Array<{ returnValues: Record<string, string> }> =
+		await dev.lockup.contract.getPastEvents('Lockedup', { fromBlock: 0 })
+	const stakers = new Map<string, Set<string>>()
+	for (const { returnValues } of events) {
+		const users = stakers.get(returnValues._property) ?? new Set<string>()
+		stakers.set(returnValues._property, users.add(returnValues._from))
+	}
+
+	const perProperty = await Promise.all(
+		[...stakers].map(async ([property, users]) => {
+			const [propertyValue, values] = await Promise.all([
+				dev.lockup.getPropertyValue(property).then(toBigNumber),
+				Promise.all(
+					[...users].map(async (user) =>
+						dev.lockup.getValue(property, user).then(toBigNumber)
+					)
+				),
+			])
+			const sum = values.reduce((a, b) => a.plus(b), new BigNumber(0))
+			expect(sum.toFixed()).to.be.equal(
+				propertyValue.toFixed(),
+				`getPropertyValue of ${property}`
+			)
+			return sum
+		})
+	)
+	const allValue = await dev.lockup.getAllValue().then(toBigNumber)
+	expect(
+		perProperty.reduce((a, b) => a.plus(b), new BigNumber(0)).toFixed()
+	).to.be.equal(allValue.toFixed(), 'getAllValue')
+}
+
+/**
+ * Tracks the DEV minted through DevMinter, i.e. the staker, holder and treasury rewards,
+ * against `Allocator.calculateMaxRewardsPerBlock` summed over the elapsed blocks.
+ * Every mint counts except the direct `Dev.mint` calls of the test,
+ * since the rewards are minted in the transactions to Lockup, Withdraw or the treasury.
+ * Create it before the first `Lockup.update` so that every rewarded block is counted.
+ */
+export async function trackMintedRewards(
+	dev: DevProtocolInstance
+): Promise<MintInvariant> {
+	const startBlock = await getBlock()
+
+	const calculate = async (): Promise<MintedRewards> => {
+		const currentBlock = await getBlock()
+		const token = dev.dev.address.toLowerCase()
+		const mintSelector = (web3 as Web3).eth.abi.encodeFunctionSignature(
+			'mint(address,uint256)'
+		)
+		const mints: Array<{
+			transactionHash: string
+			returnValues: Record<string, string>
+		}> = await dev.dev.contract.getPastEvents('Transfer', {
+			filter: { from: ZERO_ADDRESS },
+			fromBlock: startBlock + 1,
+			toBlock: currentBlock,
+		})
+		const minted = await Promise.all(
+			mints.map(async ({ transactionHash, returnValues }) => {
+				const { to, input } = await (web3 as Web3).eth.getTransaction(
+					transactionHash
+				)
+				const direct =
+					to?.toLowerCase() === token && input.startsWith(mintSelector)
+				return direct ? new BigNumber(0) : toBigNumber(returnValues.value)
+			})
+		)
+
+		// The reward of a block is what the Allocator returned at the previous block
+		const rates = await Promise.all(
+			[...new Array(currentBlock - startBlock)].map(async (_, i) =>
+				dev.allocator.contract.methods
+					.calculateMaxRewardsPerBlock()
+					.call(undefined, startBlock + i)
+					.then(toBigNumber)
+			)
+		)
+		return {
+			minted: minted.reduce((a, b) => a.plus(b), new BigNumber(0)),
+			allowed: rates.reduce((a, b) => a.plus(b), new BigNumber(0)),
+		}
+	}
+
+	const validate = async (): Promise<void> => {
+		const { minted, allowed } = await calculate()
+		expect(
+			minted.isLessThanOrEqualTo(allowed),
+			`minted ${minted.toFixed()} exceeds allowed ${allowed.toFixed()}`
+		).to.be.equal(true)
+	}
+
+	return { calculate, validate }
+}
@@ -2,6 +2,7 @@ import BigNumber from 'bignumber.js'
 import { DevProtocolInstance } from '../instance'
 import { toBigNumber } from './common'
 import { PropertyInstance } from '../../../types/truffle-contracts'
+import { calculateWithdrawableAmount as calculateHolderReward } from '../../../scripts/lib/holder-reward'
 
 async function getWithdrawAmount(
 	dev: DevProtocolInstance,
@@ -54,3 +55,53 @@ export async function getWithdrawHolderSplitAmount(
 	const tmp = share.div(totalSupply).times(balance)
 	return calculateWithdrawableAmount.plus(tmp.times(transitionalBlock))
 }
+
+export async function getExactWithdrawHolderAmount(
+	dev: DevProtocolInstance,
+	property: PropertyInstance,
+	user: string
+): Promise<BigNumber> {
+	const [
+		rewardAmount,
+		balance,
+		totalSupply,
+		lastReward,
+		lastRewardCap,
+		pending,
+		lastWithdrawalPrice,
+		cumulativePrice,
+		hasAssets,
+	] = await Promise.all([
+		dev.lockup.calculateRewardAmount(property.address),
+		property.balanceOf(user).then(toBigNumber),
+		property.totalSupply().then(toBigNumber),
+		dev.withdraw
+			.getStorageLastWithdrawnReward(property.address, user)
+			.then(toBigNumber),
+		dev.withdraw
+			.getStorageLastWithdrawnRewardCap(property.address, user)
+			.then(toBigNumber),
+		dev.withdraw.getPendingWithdrawal(property.address, user).then(toBigNumber),
+		dev.withdraw
+			.getLastWithdrawalPrice(property.address, user)
+			.then(toBigNumber),
+		dev.withdraw.getCumulativePrice(property.address).then(toBigNumber),
+		dev.metricsGroup.hasAssets(property.address),
+	])
+	return calculateHolderReward(
+		// Truffle returns the multiple values as an object with the index keys
+		{
+			reward: toBigNumber(rewardAmount[0]),
+			cap: toBigNumber(rewardAmount[1]),
+		},
+		{
+			balance,
+			totalSupply,
+			lastReward,
+			lastRewardCap,
+			pending,
+			lastWithdrawalPrice,
+		},
+		{ hasAssets, cumulativePrice }
+	).amount
+}
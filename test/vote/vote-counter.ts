@@ -1,6 +1,11 @@
 import { MarketInstance, IPolicyInstance } from '../../types/truffle-contracts'
+import { createFixture } from '../test-lib/fixture'
 import { DevProtocolInstance } from '../test-lib/instance'
-import { mine, toBigNumber } from '../test-lib/utils/common'
+import {
+	advancePastMarketVoting,
+	advancePastPolicyVoting,
+} from '../test-lib/utils/chain'
+import { toBigNumber } from '../test-lib/utils/common'
 import { getPropertyAddress, getMarketAddress } from '../test-lib/utils/log'
 import {
 	validateErrorMessage,
@@ -17,7 +22,7 @@ contract(
 		propertyAuther3,
 		dummy,
 	]) => {
-		const init = async (): Promise<
+		const deploy = async (): Promise<
 			[DevProtocolInstance, string, MarketInstance, MarketInstance]
 		> => {
 			const dev = new DevProtocolInstance(deployer)
@@ -46,6 +51,8 @@ contract(
 			return [dev, propertyAddress, marketInstance2, marketInstance]
 		}
 
+		const init = createFixture('VoteCounterTest', deploy)
+
 		const init2 = async (): Promise<
 			[DevProtocolInstance, string, IPolicyInstance]
 		> => {
@@ -242,7 +249,7 @@ contract(
 					await dev.dev.deposit(propertyAddress, 10000, {
 						from: propertyAuther,
 					})
-					await mine(15)
+					await advancePastMarketVoting(marketInstance)
 					const result = await dev.voteCounter
 						.voteMarket(marketInstance.address, propertyAddress, true)
 						.catch((err: Error) => err)
@@ -512,7 +519,7 @@ contract(
 					await dev.dev.deposit(propertyAddress, 10000, {
 						from: propertyAuther,
 					})
-					await mine(15)
+					await advancePastPolicyVoting(dev.policyGroup, policy.address)
 					const result = await dev.voteCounter
 						.votePolicy(policy.address, propertyAddress, true, {
 							from: propertyAuther,
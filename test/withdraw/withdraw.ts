@@ -1,4 +1,5 @@
 /* eslint-disable max-params */
+import { createFixture } from '../test-lib/fixture'
 import { DevProtocolInstance } from '../test-lib/instance'
 import {
 	MetricsInstance,
@@ -26,7 +27,7 @@ import {
 } from '../test-lib/utils/error'
 
 contract('WithdrawTest', ([deployer, user1, user2, user3, user4]) => {
-	const init = async (
+	const deploy = async (
 		generateWithdrawTest = false
 	): Promise<
 		[
@@ -98,6 +99,8 @@ contract('WithdrawTest', ([deployer, user1, user2, user3, user4]) => {
 		return [dev, metrics, property, policy, market]
 	}
 
+	const init = createFixture('WithdrawTest', deploy)
+
 	describe('Withdraw; withdraw', () => {
 		it('should fail to call when passed address is not property contract', async () => {
 			const [dev] = await init()